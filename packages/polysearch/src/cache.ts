@@ -1,14 +1,124 @@
-import { createStorage } from "unstorage";
+import { createStorage, prefixStorage } from "unstorage";
 import lruDriver from "unstorage/drivers/lru-cache";
-import type { CacheConfig, SearchResponse } from "./types";
+import { createLogger } from "./logger";
+import type {
+  CacheConfig,
+  CacheStats,
+  Driver,
+  Logger,
+  SearchCache,
+  SearchOptions,
+  SearchResponse,
+} from "./types";
+
+// Options that do not change the results and are left out of cache keys
+// The error mode is kept: failures are thrown, reported or silenced depending on it
+const ignoredKeyOptions = new Set(["cache", "signal", "logger"]);
+
+// Build a stable cache key from a namespace and the options that affect results
+// (search options, filters and driver options such as registry or cx)
+// Values are encoded since storages normalize keys (e.g. "?" and "/")
+export function getCacheKey(
+  namespace: string,
+  options: Record<string, any>,
+): string {
+  const parts = Object.keys(options)
+    .filter((key) => !ignoredKeyOptions.has(key) && options[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(JSON.stringify(options[key]))}`);
+
+  return `${namespace}:${parts.join("&")}`;
+}
+
+// Upstream call shared by concurrent identical requests
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number; // Callers still waiting for the result
+}
+
+// Share one upstream call between concurrent calls with the same key (single-flight)
+// Keys must cover every option the call depends on, including the error mode (see getCacheKey)
+// The shared call runs with its own signal: an aborting caller only stops waiting,
+// and the call is only aborted once every waiting caller has aborted
+export function createSingleFlight(logger: Logger = createLogger()) {
+  const inFlight = new Map<string, InFlightRequest>();
+
+  return function dedupe<T>(
+    key: string,
+    run: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    signal?.throwIfAborted();
+
+    // Requests that are being aborted can't be joined
+    let request = inFlight.get(key);
+    if (request && !request.controller.signal.aborted) {
+      logger.debug(`[cache] coalesced ${key}`);
+    } else {
+      const controller = new AbortController();
+      const promise = run(controller.signal).finally(() => {
+        if (inFlight.get(key) === request) {
+          inFlight.delete(key);
+        }
+      });
+      request = { promise, controller, waiters: 0 };
+      inFlight.set(key, request);
+    }
+
+    const shared = request;
+    const promise = shared.promise as Promise<T>;
+    shared.waiters++;
+
+    // Callers without a signal keep the shared call alive
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters--;
+        if (shared.waiters === 0) {
+          shared.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  };
+}
+
+// Cached response with its expiry, stored inside the value so that
+// storages without getMeta support (fs, redis, IndexedDB, ...) behave the same
+interface CacheEntry {
+  value: SearchResponse;
+  expires: number; // Timestamp (ms) until the value is fresh
+  staleUntil: number; // Timestamp (ms) until the value can be served while refreshing
+}
+
+// Empty or failed responses are cached with the negative TTL
+function isNegative(value: SearchResponse): boolean {
+  return value.results.length === 0 || Boolean(value.errors?.length);
+}
 
 // Cache manager for drivers
-export function createCache(cacheConfig?: CacheConfig) {
+export function createCache(
+  cacheConfig?: CacheConfig,
+  logger: Logger = createLogger(),
+): SearchCache {
+  // Concurrent identical requests are coalesced even without caching
+  const dedupe = createSingleFlight(logger);
+
   if (cacheConfig === false) {
     // Cache disabled
     return {
       perPage: undefined,
-      ttl: 60,
+      ttl: 0, // Nothing is cached
+      negativeTtl: 0,
+      dedupe,
 
       async get(): Promise<SearchResponse | null> {
         return null;
@@ -17,46 +127,230 @@ export function createCache(cacheConfig?: CacheConfig) {
       async set(): Promise<void> {
         // No-op when cache disabled
       },
+
+      async has(): Promise<boolean> {
+        return false;
+      },
+
+      resolve(key, run, signal) {
+        return dedupe(key, run, signal);
+      },
+
+      async invalidate(): Promise<number> {
+        return 0;
+      },
+
+      async clear(): Promise<void> {
+        // No-op when cache disabled
+      },
+
+      async stats(): Promise<CacheStats> {
+        return { hits: 0, misses: 0, evictions: 0, size: 0 };
+      },
     };
   }
 
   const perPage = cacheConfig?.perPage;
   const ttl = cacheConfig?.ttl ?? 60;
+  const staleTtl = cacheConfig?.staleTtl ?? 0;
+  const negativeTtl = cacheConfig?.negativeTtl ?? Math.min(ttl, 10);
+  const counters = { hits: 0, misses: 0, evictions: 0 };
 
   // Always create storage (defaults to LRU cache)
-  const storage =
+  const baseStorage =
     cacheConfig?.storage ||
     createStorage({
       driver: lruDriver({
         max: cacheConfig?.maxItems || 100,
       }),
     });
+  const storage = cacheConfig?.prefix
+    ? prefixStorage(baseStorage, cacheConfig.prefix)
+    : baseStorage;
+
+  // Read an entry, dropping entries that are past their stale window or malformed
+  const read = async (key: string): Promise<CacheEntry | null> => {
+    const entry = await storage.get<CacheEntry>(key);
+    if (!entry || typeof entry.expires !== "number") {
+      logger.debug(`[cache] miss ${key}`);
+      counters.misses++;
+      return null;
+    }
+
+    if (Date.now() >= entry.staleUntil) {
+      logger.debug(`[cache] expired ${key}`);
+      counters.misses++;
+      counters.evictions++;
+      await storage.removeItem(key);
+      return null;
+    }
+
+    return entry;
+  };
+
+  const set = async (key: string, value: SearchResponse): Promise<void> => {
+    const negative = isNegative(value);
+    const entryTtl = negative ? negativeTtl : ttl;
+    const entryStaleTtl = negative ? 0 : staleTtl;
+    const now = Date.now();
+
+    const entry: CacheEntry = {
+      value,
+      expires: now + entryTtl * 1000,
+      staleUntil: now + (entryTtl + entryStaleTtl) * 1000,
+    };
+    await storage.set(key, entry, { ttl: entryTtl + entryStaleTtl });
+  };
+
+  // Remove entries whose key starts with prefix
+  // Keys are removed one by one, storage.clear() ignores the key prefix on some drivers
+  const invalidate = async (prefix: string): Promise<number> => {
+    const keys = (await storage.getKeys()).filter((key) =>
+      key.startsWith(prefix),
+    );
+    await Promise.all(keys.map((key) => storage.removeItem(key)));
+
+    logger.debug(`[cache] invalidated ${keys.length} entries ${prefix}*`);
+    counters.evictions += keys.length;
+    return keys.length;
+  };
+
+  // Fetch and store a response, sharing the upstream call with concurrent callers
+  const refresh = (
+    key: string,
+    run: (signal: AbortSignal) => Promise<SearchResponse>,
+    signal?: AbortSignal,
+  ): Promise<SearchResponse> =>
+    dedupe(
+      key,
+      async (sharedSignal) => {
+        const value = await run(sharedSignal);
+        await set(key, value);
+        return value;
+      },
+      signal,
+    );
 
   return {
     perPage,
     ttl,
+    negativeTtl,
+    dedupe,
 
+    // Get a fresh value
     async get(key: string): Promise<SearchResponse | null> {
-      const value = await storage.get<SearchResponse>(key);
-      if (!value) return null;
-
-      const meta = await storage.getMeta(key);
-      if (meta?.mtime && typeof meta.mtime.getTime === "function") {
-        const age = (Date.now() - meta.mtime.getTime()) / 1000;
-        if (age > ttl) {
-          await storage.removeItem(key);
-          return null;
-        }
-      } else {
-        await storage.removeItem(key);
+      const entry = await read(key);
+      if (!entry) {
+        return null;
+      }
+
+      if (Date.now() >= entry.expires) {
+        counters.misses++;
         return null;
       }
 
-      return value;
+      logger.debug(`[cache] hit ${key}`);
+      counters.hits++;
+      return entry.value;
+    },
+
+    set,
+
+    async has(key: string): Promise<boolean> {
+      const entry = await storage.get<CacheEntry>(key);
+      return Boolean(entry && Date.now() < entry.expires);
+    },
+
+    // Get a value from the cache or run the request
+    // Stale values are returned immediately and refreshed in the background
+    async resolve(key, run, signal) {
+      const entry = await read(key);
+
+      if (entry && Date.now() < entry.expires) {
+        logger.debug(`[cache] hit ${key}`);
+        counters.hits++;
+        return entry.value;
+      }
+
+      if (entry) {
+        logger.debug(`[cache] stale ${key}`);
+        counters.hits++;
+        // Not bound to the caller's signal, the refresh outlives this request
+        refresh(key, run).catch((error) => {
+          logger.warn(`[cache] refresh failed ${key}`, error);
+        });
+        return entry.value;
+      }
+
+      return refresh(key, run, signal);
     },
 
-    async set(key: string, value: SearchResponse): Promise<void> {
-      await storage.set(key, value, { ttl });
+    invalidate,
+
+    async clear(): Promise<void> {
+      await invalidate("");
+    },
+
+    async stats(): Promise<CacheStats> {
+      const size = (await storage.getKeys()).length;
+      return { ...counters, size };
+    },
+  };
+}
+
+// Wrap any driver's search in a cache layer
+export function withCache(
+  driver: Driver,
+  cacheConfig?: CacheConfig,
+  logger: Logger = createLogger(),
+): Driver {
+  if (!cacheConfig) {
+    return driver;
+  }
+
+  const cache = createCache(cacheConfig, logger);
+  const namespace = driver.name || "unknown";
+
+  return {
+    ...driver,
+    cache,
+
+    search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
+      const options = {
+        ...searchOptions,
+        perPage: searchOptions.perPage ?? cache.perPage,
+      };
+
+      return cache.resolve(
+        getCacheKey(namespace, options),
+        async (signal) => driver.search({ ...options, signal }),
+        searchOptions.signal,
+      );
     },
+
+    // Cached responses are yielded at once, streamed responses are cached when complete
+    searchStream:
+      driver.searchStream &&
+      async function* (searchOptions: SearchOptions) {
+        const options = {
+          ...searchOptions,
+          perPage: searchOptions.perPage ?? cache.perPage,
+        };
+        const key = getCacheKey(namespace, options);
+
+        const cached = await cache.get(key);
+        if (cached) {
+          yield cached;
+          return;
+        }
+
+        let response: SearchResponse | undefined;
+        for await (response of driver.searchStream!(options)) {
+          yield response;
+        }
+        if (response) {
+          await cache.set(key, response);
+        }
+      },
   };
 }
@@ -0,0 +1,35 @@
+import type { Driver, DriverCapabilities } from "./types";
+
+// Get the capabilities of a driver, inferring them when the driver does not declare any
+export function resolveCapabilities(driver: Driver): DriverCapabilities {
+  if (driver.capabilities) {
+    return driver.capabilities;
+  }
+
+  return {
+    search: true,
+    suggest: typeof driver.suggest === "function",
+    requiresAuth: false,
+    pagination: true,
+  };
+}
+
+// Combine capabilities of several drivers queried together (e.g. hybrid)
+// Suggestions, kinds and options are available if any driver provides them,
+// authentication is only required if every driver requires it
+export function mergeCapabilities(
+  capabilities: DriverCapabilities[],
+): DriverCapabilities {
+  const kinds = [...new Set(capabilities.flatMap((c) => c.kinds || []))];
+  const options = Object.assign({}, ...capabilities.map((c) => c.options));
+
+  return {
+    search: capabilities.some((c) => c.search),
+    suggest: capabilities.some((c) => c.suggest),
+    requiresAuth:
+      capabilities.length > 0 && capabilities.every((c) => c.requiresAuth),
+    pagination: capabilities.some((c) => c.pagination),
+    ...(kinds.length > 0 && { kinds }),
+    ...(Object.keys(options).length > 0 && { options }),
+  };
+}
@@ -1,13 +1,15 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SuggestionOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError, handleSuggestError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // DuckDuckGo API response types
 export interface DuckDuckGoResult {
@@ -50,6 +52,12 @@ export interface DuckDuckGoSuggestion {
   phrase: string;
 }
 
+// Structured data attached to each DuckDuckGo search result
+export interface DuckDuckGoResultMeta {
+  source: "result" | "related" | "abstract"; // Section of the instant answer
+  abstractSource?: string; // Source of the abstract (e.g. Wikipedia)
+}
+
 export interface DuckDuckGoDriverOptions extends DriverOptions {
   cache?: CacheConfig;
 }
@@ -57,11 +65,22 @@ export interface DuckDuckGoDriverOptions extends DriverOptions {
 export default function duckduckgoDriver(
   driverOptions: DuckDuckGoDriverOptions = {},
 ): Driver {
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "duckduckgo");
 
   return {
     name: "duckduckgo",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: false,
+      pagination: true,
+      defaultPerPage: 20,
+      kinds: ["web"],
+    },
 
     search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
       const { query } = searchOptions;
@@ -71,97 +90,119 @@ export default function duckduckgoDriver(
       }
 
       const perPage = searchOptions.perPage || cache.perPage || 20;
-      const cacheKey = `duckduckgo:${query}`;
-
-      // Try cache first (store all results for duckduckgo)
-      const cached = await cache.get(cacheKey);
-      if (cached && cached.results) {
-        // Paginate from cached results
-        const page = searchOptions.page || 1;
-        const offset = (page - 1) * perPage;
-        const paginatedResults = cached.results.slice(offset, offset + perPage);
-
-        return {
-          results: paginatedResults,
-          totalResults: cached.totalResults,
-        };
-      }
-
-      try {
-        // Build search URL
-        const url = `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json`;
-
-        // Send request
-        const response = await ofetch(url, {
-          method: "GET",
-        });
-
-        // Handle Blob response from ofetch
-        const data: DuckDuckGoResponse =
-          response instanceof Blob
-            ? JSON.parse(await response.text())
-            : response;
-
-        // Collect all potential results from different sources
-        let allResults: DuckDuckGoResult[] = [];
-
-        // Add direct Results
-        if (data.Results && Array.isArray(data.Results)) {
-          allResults.push(...data.Results);
-        }
-
-        // Add RelatedTopics that look like search results (have FirstURL and Result)
-        if (data.RelatedTopics && Array.isArray(data.RelatedTopics)) {
-          const relatedResults = data.RelatedTopics.filter(
-            (item: DuckDuckGoResult) => item.FirstURL && item.Result,
-          );
-          allResults.push(...relatedResults);
-        }
-
-        // Add Abstract as a result if it exists and has URL
-        if (data.Abstract && data.AbstractURL && data.AbstractText) {
-          allResults.push({
-            FirstURL: data.AbstractURL,
-            Result: `<a href="${data.AbstractURL}">${data.Heading || "Abstract"}</a>`,
-            Text: data.AbstractText,
-          });
-        }
-
-        // Process all results
-        const processedResults = allResults.map((item: DuckDuckGoResult) => ({
-          title:
-            extractTitleFromResult(item.Result) ||
-            item.Text ||
-            item.FirstURL ||
-            "",
-          url: item.FirstURL || "",
-          snippet: extractTextFromResult(item.Result) || item.Text || "",
-        }));
-
-        // Cache all results
-        const fullResponse: SearchResponse = {
-          results: processedResults,
-          totalResults: allResults.length,
-        };
-
-        await cache.set(cacheKey, fullResponse);
-
-        // Return paginated results
-        const page = searchOptions.page || 1;
-        const offset = (page - 1) * perPage;
-        const paginatedResults = processedResults.slice(
-          offset,
-          offset + perPage,
-        );
-
-        return {
-          results: paginatedResults,
-          totalResults: allResults.length,
-        };
-      } catch (error) {
-        console.error("DuckDuckGo search error:", error);
-        return { results: [] };
-      }
+      const cacheKey = getCacheKey("duckduckgo", {
+        ...searchOptions,
+        page: undefined, // All results are cached and paginated locally
+        perPage: undefined,
+      });
+
+      // All results are cached for duckduckgo and paginated locally
+      const fullResponse = await cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build search URL
+            const url = `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json`;
+
+            // Send request
+            const response = await $fetch(url, {
+              method: "GET",
+              signal,
+            });
+
+            // Handle Blob response from ofetch
+            const data: DuckDuckGoResponse =
+              response instanceof Blob
+                ? JSON.parse(await response.text())
+                : response;
+
+            // Collect all potential results from different sources
+            let allResults: Array<{
+              item: DuckDuckGoResult;
+              meta: DuckDuckGoResultMeta;
+            }> = [];
+
+            // Add direct Results
+            if (data.Results && Array.isArray(data.Results)) {
+              allResults.push(
+                ...data.Results.map((item) => ({
+                  item,
+                  meta: { source: "result" as const },
+                })),
+              );
+            }
+
+            // Add RelatedTopics that look like search results (have FirstURL and Result)
+            if (data.RelatedTopics && Array.isArray(data.RelatedTopics)) {
+              const relatedResults = data.RelatedTopics.filter(
+                (item: DuckDuckGoResult) => item.FirstURL && item.Result,
+              );
+              allResults.push(
+                ...relatedResults.map((item) => ({
+                  item,
+                  meta: { source: "related" as const },
+                })),
+              );
+            }
+
+            // Add Abstract as a result if it exists and has URL
+            if (data.Abstract && data.AbstractURL && data.AbstractText) {
+              allResults.push({
+                item: {
+                  FirstURL: data.AbstractURL,
+                  Result: `<a href="${data.AbstractURL}">${data.Heading || "Abstract"}</a>`,
+                  Text: data.AbstractText,
+                  Icon: data.Image ? { URL: data.Image } : undefined,
+                },
+                meta: {
+                  source: "abstract",
+                  abstractSource: data.AbstractSource || undefined,
+                },
+              });
+            }
+
+            // Process all results
+            const processedResults = allResults.map(
+              ({ item, meta }): SearchResult<DuckDuckGoResultMeta> => ({
+                title:
+                  extractTitleFromResult(item.Result) ||
+                  item.Text ||
+                  item.FirstURL ||
+                  "",
+                url: item.FirstURL || "",
+                snippet: extractTextFromResult(item.Result) || item.Text || "",
+                kind: "web",
+                thumbnail: resolveIconUrl(item.Icon?.URL),
+                meta,
+              }),
+            );
+
+            const result: SearchResponse<DuckDuckGoResultMeta> = {
+              results: processedResults,
+              totalResults: allResults.length,
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "duckduckgo",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
+
+      // Return paginated results
+      const page = searchOptions.page || 1;
+      const offset = (page - 1) * perPage;
+
+      return {
+        ...fullResponse,
+        results: fullResponse.results.slice(offset, offset + perPage),
+      };
     },
 
     suggest: async (options: SuggestionOptions): Promise<string[]> => {
@@ -176,8 +217,9 @@ export default function duckduckgoDriver(
         const url = `https://duckduckgo.com/ac/?q=${encodeURIComponent(query)}&kl=wt-wt`;
 
         // Send request
-        const response = await ofetch(url, {
+        const response = await $fetch(url, {
           method: "GET",
+          signal: options.signal,
         });
 
         // Handle Blob response from ofetch
@@ -195,13 +237,26 @@ export default function duckduckgoDriver(
 
         return [];
       } catch (error) {
-        console.error("DuckDuckGo autocomplete error:", error);
-        return [];
+        return handleSuggestError(
+          error,
+          "duckduckgo",
+          options.errors ?? driverOptions.errors,
+          logger,
+        );
       }
     },
   };
 }
 
+// Helper function to resolve relative DuckDuckGo icon paths (e.g. /i/abc.png)
+function resolveIconUrl(iconUrl?: string): string | undefined {
+  if (!iconUrl) {
+    return undefined;
+  }
+
+  return new URL(iconUrl, "https://duckduckgo.com").toString();
+}
+
 // Helper function to extract title from HTML result string
 function extractTitleFromResult(resultHtml: string): string {
   if (!resultHtml || typeof resultHtml !== "string") {
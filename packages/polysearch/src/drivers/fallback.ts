@@ -0,0 +1,233 @@
+import type {
+  Driver,
+  DriverOptions,
+  SuggestionOptions,
+  SearchOptions,
+  SearchResponse,
+  SearchError,
+  CircuitBreakerOptions,
+  Suggestion,
+} from "..";
+import { mergeCapabilities, resolveCapabilities } from "../capabilities";
+import {
+  CircuitOpenError,
+  isAbortError,
+  PolySearchError,
+  toPolySearchError,
+  withTimeout,
+} from "../errors";
+import { createHealthTracker } from "../health";
+import { createLogger } from "../logger";
+
+// FallbackDriver specific options
+export interface FallbackDriverOptions extends DriverOptions {
+  drivers: Array<{
+    driver: Driver;
+    timeout?: number; // Timeout in ms for this specific driver
+  }>;
+  minResults?: number; // Try the next driver when fewer results are returned (default: 1)
+  circuitBreaker?: CircuitBreakerOptions | false; // Skip failing drivers (false to always try them)
+}
+
+export default function fallbackDriver(options: FallbackDriverOptions): Driver {
+  const { drivers, minResults = 1 } = options;
+
+  if (!drivers || drivers.length === 0) {
+    throw new Error("FallbackDriver requires at least one driver");
+  }
+
+  const logger = createLogger(options.logger);
+  const health = createHealthTracker(options.circuitBreaker);
+
+  // Try drivers that support suggestions in order until one returns suggestions
+  const richSuggest = async (
+    suggestOptions: SuggestionOptions,
+  ): Promise<Suggestion[]> => {
+    const { signal } = suggestOptions;
+    const mode = suggestOptions.errors ?? options.errors;
+    let firstError: PolySearchError | undefined;
+    let hasSucceeded = false;
+
+    for (const { driver, timeout } of drivers) {
+      if (!driver.suggest || !resolveCapabilities(driver).suggest) {
+        continue;
+      }
+
+      const driverName = driver.name || "unknown";
+
+      try {
+        const driverOptions: SuggestionOptions = {
+          ...suggestOptions,
+          errors: "throw",
+        };
+
+        // Nested drivers (e.g. hybrid) report their own sources
+        const suggestions = await withTimeout(
+          async (driverSignal): Promise<Suggestion[]> =>
+            driver.richSuggest
+              ? driver.richSuggest({ ...driverOptions, signal: driverSignal })
+              : (
+                  await driver.suggest!({
+                    ...driverOptions,
+                    signal: driverSignal,
+                  })
+                ).map((text) => ({ text, sources: [driverName] })),
+          timeout,
+          `Driver ${driverName} suggest timed out after ${timeout}ms`,
+          driverName,
+          signal,
+        );
+        hasSucceeded = true;
+
+        if (suggestions.length > 0) {
+          return suggestions.slice(0, suggestOptions.limit || undefined);
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+
+        const suggestError = toPolySearchError(error, driverName);
+        logger.warn(
+          `[fallback] ${driverName} suggest failed: ${suggestError.message}`,
+        );
+        firstError ??= suggestError;
+      }
+    }
+
+    // Only fail as a whole when no driver returned anything
+    if (!hasSucceeded && firstError && mode === "throw") {
+      throw firstError;
+    }
+
+    return [];
+  };
+
+  return {
+    name: "fallback",
+    options,
+    capabilities: mergeCapabilities(
+      drivers.map(({ driver }) => resolveCapabilities(driver)),
+    ),
+
+    // Try drivers in order until one returns enough results
+    search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
+      const { signal } = searchOptions;
+      const mode = searchOptions.errors ?? options.errors;
+
+      // Failures of the drivers that were tried (or skipped)
+      const errors: SearchError[] = [];
+      let firstError: PolySearchError | undefined;
+      // Best response when no driver returns enough results
+      let bestResponse: SearchResponse | undefined;
+
+      for (const { driver, timeout } of drivers) {
+        const driverName = driver.name || "unknown";
+
+        // Skip drivers that keep failing until their circuit is probed again
+        if (!health.canRequest(driverName)) {
+          const retryAt = health.retryAt(driverName) ?? Date.now();
+          const error = new CircuitOpenError(
+            `Driver ${driverName} is unavailable`,
+            {
+              driver: driverName,
+              retryAfter: Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)),
+            },
+          );
+          logger.debug(`[fallback] ${driverName} skipped: circuit open`);
+          firstError ??= error;
+          errors.push(error.toJSON());
+          continue;
+        }
+
+        const startTime = performance.now();
+
+        try {
+          // Drivers throw so that failures can be reported here
+          const response = await withTimeout(
+            (driverSignal) =>
+              driver.search({
+                ...searchOptions,
+                errors: "throw",
+                signal: driverSignal,
+              }),
+            timeout,
+            `Driver ${driverName} timed out after ${timeout}ms`,
+            driverName,
+            signal,
+          );
+          health.record(driverName, performance.now() - startTime);
+
+          const answered: SearchResponse = {
+            ...response,
+            results: response.results.map((result) => ({
+              ...result,
+              sources: result.sources || [driverName],
+            })),
+            driver: response.driver || driverName,
+          };
+
+          if (answered.results.length >= minResults) {
+            logger.debug(
+              `[fallback] ${driverName} answered with ${answered.results.length} results`,
+            );
+            return {
+              ...answered,
+              ...((errors.length > 0 || answered.errors) && {
+                errors: [...errors, ...(answered.errors || [])],
+              }),
+            };
+          }
+
+          logger.debug(
+            `[fallback] ${driverName} returned ${answered.results.length} results, trying next driver`,
+          );
+          if (
+            !bestResponse ||
+            answered.results.length > bestResponse.results.length
+          ) {
+            bestResponse = answered;
+          }
+        } catch (error) {
+          // Cancelled by the caller, not a driver failure
+          if (isAbortError(error)) {
+            health.release(driverName);
+            throw error;
+          }
+
+          const searchError = toPolySearchError(error, driverName);
+          health.record(
+            driverName,
+            performance.now() - startTime,
+            searchError.toJSON(),
+          );
+          logger.warn(
+            `[fallback] ${driverName} search failed: ${searchError.message}`,
+          );
+          firstError ??= searchError;
+          errors.push(searchError.toJSON());
+        }
+      }
+
+      // Only fail as a whole when no driver returned anything
+      if (!bestResponse && firstError && mode === "throw") {
+        throw firstError;
+      }
+
+      return {
+        ...bestResponse,
+        results: bestResponse?.results || [],
+        ...(errors.length > 0 && { errors }),
+      };
+    },
+
+    richSuggest,
+
+    suggest: async (suggestOptions: SuggestionOptions): Promise<string[]> =>
+      (await richSuggest(suggestOptions)).map(({ text }) => text),
+
+    // Failure rate, latency and circuit state of each driver
+    health: () =>
+      drivers.map(({ driver }) => health.get(driver.name || "unknown")),
+  };
+}
@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { AuthError, handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Code Driver Options
 export interface GitHubCodeDriverOptions extends DriverOptions {
@@ -50,6 +52,15 @@ export interface GitHubCodeItem {
   score: number;
 }
 
+// Structured data attached to each code search result
+export interface GitHubCodeResultMeta {
+  repository: string; // Full repository name (owner/name)
+  path: string;
+  sha: string;
+  language: string | null; // Repository language
+  stars: number; // Repository stars
+}
+
 export interface GitHubCodeSearchResponse {
   total_count: number;
   incomplete_results: boolean;
@@ -60,7 +71,9 @@ export default function githubCodeDriver(
   driverOptions: GitHubCodeDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-code");
 
   // Helper function to build query string with qualifiers
   function buildQuery(
@@ -86,9 +99,16 @@ export default function githubCodeDriver(
         // Only add non-core API parameters as qualifiers
         if (
           key !== "query" &&
+          key !== "page" &&
+          key !== "perPage" &&
+          key !== "cursor" &&
           key !== "limit" &&
+          key !== "logger" &&
+          key !== "cache" &&
           key !== "sort" &&
-          key !== "order"
+          key !== "order" &&
+          key !== "errors" &&
+          key !== "signal"
         ) {
           qualifiers.push(`${key}:${value}`);
         }
@@ -103,6 +123,18 @@ export default function githubCodeDriver(
   return {
     name: "github-code",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: false,
+      requiresAuth: true,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      sort: ["indexed", "updated"],
+      order: ["asc", "desc"],
+      kinds: ["code"],
+    },
 
     search: async (
       searchOptions: GitHubCodeSearchOptions,
@@ -115,84 +147,107 @@ export default function githubCodeDriver(
 
       // Code search requires authentication
       if (!token) {
-        console.error("GitHub Code Search requires authentication token");
-        return { results: [] };
+        return handleSearchError(
+          new AuthError("GitHub Code Search requires authentication token"),
+          "github-code",
+          searchOptions.errors ?? driverOptions.errors,
+          logger,
+        );
       }
 
-      const limit = searchOptions.limit || cache.perPage || 30;
+      const limit =
+        searchOptions.perPage || searchOptions.limit || cache.perPage || 30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-code:${query}:${page}:${limit}`;
+      const cacheKey = getCacheKey("github-code", {
+        ...searchOptions,
+        page,
+        limit,
+      });
 
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const apiQuery = buildQuery(query, searchOptions);
+            const searchParams = new URLSearchParams({
+              q: apiQuery,
+              per_page: Math.min(limit, 100).toString(), // GitHub API limit is 100
+            });
 
-      try {
-        // Build GitHub API query
-        const apiQuery = buildQuery(query, searchOptions);
-        const searchParams = new URLSearchParams({
-          q: apiQuery,
-          per_page: Math.min(limit, 100).toString(), // GitHub API limit is 100
-        });
-
-        // Add sort parameters if provided
-        if (searchOptions.sort) {
-          searchParams.set("sort", searchOptions.sort);
-          if (searchOptions.order) {
-            searchParams.set("order", searchOptions.order);
-          }
-        }
+            // Add sort parameters if provided
+            if (searchOptions.sort) {
+              searchParams.set("sort", searchOptions.sort);
+              if (searchOptions.order) {
+                searchParams.set("order", searchOptions.order);
+              }
+            }
 
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
 
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-          Authorization: `Bearer ${token}`,
-        };
-
-        // Make API request
-        const response: GitHubCodeSearchResponse = await ofetch(
-          `https://api.github.com/search/code?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+              Authorization: `Bearer ${token}`,
+            };
 
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((item): any => ({
-          title: `${item.repository.full_name}/${item.path}`,
-          url: item.html_url,
-          snippet: item.path,
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub Code Search Error:", error);
-        return { results: [] };
-      }
+            // Make API request
+            const response = await $fetch<GitHubCodeSearchResponse>(
+              `https://api.github.com/search/code?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
+
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (item): SearchResult<GitHubCodeResultMeta> => ({
+                title: `${item.repository.full_name}/${item.path}`,
+                url: item.html_url,
+                snippet: item.path,
+                kind: "code",
+                score: item.score,
+                meta: {
+                  repository: item.repository.full_name,
+                  path: item.path,
+                  sha: item.sha,
+                  language: item.repository.language || null,
+                  stars: item.repository.stargazers_count,
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubCodeResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-code",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // GitHub code search doesn't support suggestions
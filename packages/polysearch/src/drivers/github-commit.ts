@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { AuthError, handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Commit Driver Options
 export interface GitHubCommitDriverOptions extends DriverOptions {
@@ -179,6 +181,16 @@ export interface GitHubCommitItem {
   score: number;
 }
 
+// Structured data attached to each commit search result
+export interface GitHubCommitResultMeta {
+  sha: string;
+  repository: string; // Full repository name (owner/name)
+  message: string; // Full commit message
+  committer: string;
+  committedAt: string;
+  verified: boolean;
+}
+
 export interface GitHubCommitSearchResponse {
   total_count: number;
   incomplete_results: boolean;
@@ -189,11 +201,25 @@ export default function githubCommitDriver(
   driverOptions: GitHubCommitDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-commit");
 
   return {
     name: "github-commit",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: false,
+      requiresAuth: true,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      sort: ["author-date", "committer-date"],
+      order: ["asc", "desc"],
+      kinds: ["commit"],
+    },
 
     search: async (
       searchOptions: GitHubCommitSearchOptions,
@@ -206,84 +232,115 @@ export default function githubCommitDriver(
 
       // Commit search requires authentication
       if (!token) {
-        console.error("GitHub Commit Search requires authentication token");
-        return { results: [] };
+        return handleSearchError(
+          new AuthError("GitHub Commit Search requires authentication token"),
+          "github-commit",
+          searchOptions.errors ?? driverOptions.errors,
+          logger,
+        );
       }
 
       const limit =
-        searchOptions.per_page || searchOptions.limit || cache.perPage || 30;
+        searchOptions.perPage ||
+        searchOptions.per_page ||
+        searchOptions.limit ||
+        cache.perPage ||
+        30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-commit:${query}:${page}:${limit}`;
-
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Build GitHub API query
-        const searchParams = new URLSearchParams({
-          q: query,
-          per_page: Math.min(limit, 100).toString(),
-        });
+      const cacheKey = getCacheKey("github-commit", {
+        ...searchOptions,
+        page,
+        limit,
+      });
 
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const searchParams = new URLSearchParams({
+              q: query,
+              per_page: Math.min(limit, 100).toString(),
+            });
 
-        // Add sort parameters if provided
-        if (searchOptions.sort) {
-          searchParams.set("sort", searchOptions.sort);
-          if (searchOptions.order) {
-            searchParams.set("order", searchOptions.order);
-          }
-        }
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
 
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-          Authorization: `Bearer ${token}`,
-        };
+            // Add sort parameters if provided
+            if (searchOptions.sort) {
+              searchParams.set("sort", searchOptions.sort);
+              if (searchOptions.order) {
+                searchParams.set("order", searchOptions.order);
+              }
+            }
 
-        // Make API request to commits endpoint
-        const response: GitHubCommitSearchResponse = await ofetch(
-          `https://api.github.com/search/commits?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+              Authorization: `Bearer ${token}`,
+            };
 
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((commit): any => ({
-          title: `${commit.sha.substring(0, 7)} ${commit.commit.message.split("\n")[0]}`,
-          url: commit.html_url,
-          snippet: `Commit by ${commit.author?.login || commit.commit.author.name} in ${commit.repository.full_name}`,
-        }));
+            // Make API request to commits endpoint
+            const response = await $fetch<GitHubCommitSearchResponse>(
+              `https://api.github.com/search/commits?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
 
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (commit): SearchResult<GitHubCommitResultMeta> => ({
+                title: `${commit.sha.substring(0, 7)} ${commit.commit.message.split("\n")[0]}`,
+                url: commit.html_url,
+                snippet: `Commit by ${commit.author?.login || commit.commit.author.name} in ${commit.repository.full_name}`,
+                kind: "commit",
+                publishedAt: commit.commit.author.date,
+                author: commit.author?.login || commit.commit.author.name,
+                thumbnail: commit.author?.avatar_url,
+                score: commit.score,
+                meta: {
+                  sha: commit.sha,
+                  repository: commit.repository.full_name,
+                  message: commit.commit.message,
+                  committer:
+                    commit.committer?.login || commit.commit.committer.name,
+                  committedAt: commit.commit.committer.date,
+                  verified: commit.commit.verification?.verified ?? false,
+                },
+              }),
+            );
 
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
 
-        // Cache the result
-        await cache.set(cacheKey, result);
+            const result: SearchResponse<GitHubCommitResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
 
-        return result;
-      } catch (error) {
-        console.error("GitHub Commit Search Error:", error);
-        return { results: [] };
-      }
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-commit",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // GitHub commit search doesn't support suggestions
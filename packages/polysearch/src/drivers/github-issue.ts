@@ -1,13 +1,15 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   SuggestionOptions,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Issue Driver Options
 export interface GitHubIssueDriverOptions extends DriverOptions {
@@ -84,6 +86,20 @@ export interface GitHubIssue {
   timeline_url: string;
   performed_via_github_app: any;
   state_reason: string;
+  score: number;
+}
+
+// Structured data attached to each issue search result
+export interface GitHubIssueResultMeta {
+  number: number;
+  state: string; // open or closed
+  stateReason: string | null;
+  labels: string[];
+  comments: number;
+  reactions: number;
+  isPullRequest: boolean;
+  closedAt: string | null;
+  repository: string; // Full repository name (owner/name)
 }
 
 export interface GitHubIssueSearchResponse {
@@ -96,7 +112,9 @@ export default function githubIssueDriver(
   driverOptions: GitHubIssueDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-issue");
 
   // Helper function to build query string with qualifiers
   function buildQuery(
@@ -122,9 +140,16 @@ export default function githubIssueDriver(
         // Only add non-core API parameters as qualifiers
         if (
           key !== "query" &&
+          key !== "page" &&
+          key !== "perPage" &&
+          key !== "cursor" &&
           key !== "limit" &&
+          key !== "logger" &&
+          key !== "cache" &&
           key !== "sort" &&
-          key !== "order"
+          key !== "order" &&
+          key !== "errors" &&
+          key !== "signal"
         ) {
           qualifiers.push(`${key}:${value}`);
         }
@@ -139,6 +164,18 @@ export default function githubIssueDriver(
   return {
     name: "github-issue",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      sort: ["comments", "reactions", "created", "updated"],
+      order: ["asc", "desc"],
+      kinds: ["issue"],
+    },
 
     search: async (
       searchOptions: GitHubIssueSearchOptions,
@@ -149,86 +186,116 @@ export default function githubIssueDriver(
         return { results: [] };
       }
 
-      const limit = searchOptions.limit || cache.perPage || 30;
+      const limit =
+        searchOptions.perPage || searchOptions.limit || cache.perPage || 30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-issue:${query}:${page}:${limit}`;
-
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Build GitHub API query
-        const apiQuery = buildQuery(query, searchOptions);
-        const searchParams = new URLSearchParams({
-          q: apiQuery,
-          per_page: Math.min(limit, 100).toString(),
-        });
-
-        // Add sort parameters if provided
-        if (searchOptions.sort) {
-          searchParams.set("sort", searchOptions.sort);
-          if (searchOptions.order) {
-            searchParams.set("order", searchOptions.order);
+      const cacheKey = getCacheKey("github-issue", {
+        ...searchOptions,
+        page,
+        limit,
+      });
+
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const apiQuery = buildQuery(query, searchOptions);
+            const searchParams = new URLSearchParams({
+              q: apiQuery,
+              per_page: Math.min(limit, 100).toString(),
+            });
+
+            // Add sort parameters if provided
+            if (searchOptions.sort) {
+              searchParams.set("sort", searchOptions.sort);
+              if (searchOptions.order) {
+                searchParams.set("order", searchOptions.order);
+              }
+            }
+
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
+
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+            };
+
+            if (token) {
+              headers.Authorization = `Bearer ${token}`;
+            }
+
+            // Make API request
+            const response = await $fetch<GitHubIssueSearchResponse>(
+              `https://api.github.com/search/issues?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
+
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (issue): SearchResult<GitHubIssueResultMeta> => ({
+                title: `#${issue.number} ${issue.title}`,
+                url: issue.html_url,
+                snippet: issue.body
+                  ? issue.body.substring(0, 200) +
+                    (issue.body.length > 200 ? "..." : "")
+                  : "No description",
+                kind: "issue",
+                publishedAt: issue.created_at,
+                updatedAt: issue.updated_at,
+                author: issue.user?.login,
+                thumbnail: issue.user?.avatar_url,
+                score: issue.score,
+                meta: {
+                  number: issue.number,
+                  state: issue.state,
+                  stateReason: issue.state_reason || null,
+                  labels: (issue.labels || []).map((label) => label.name),
+                  comments: issue.comments,
+                  reactions: issue.reactions?.total_count ?? 0,
+                  isPullRequest: Boolean(issue.pull_request),
+                  closedAt: issue.closed_at,
+                  repository: issue.repository_url.replace(
+                    "https://api.github.com/repos/",
+                    "",
+                  ),
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubIssueResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-issue",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
           }
-        }
-
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
-
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-        };
-
-        if (token) {
-          headers.Authorization = `Bearer ${token}`;
-        }
-
-        // Make API request
-        const response: GitHubIssueSearchResponse = await ofetch(
-          `https://api.github.com/search/issues?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
-
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((issue): any => ({
-          title: `#${issue.number} ${issue.title}`,
-          url: issue.html_url,
-          snippet: issue.body
-            ? issue.body.substring(0, 200) +
-              (issue.body.length > 200 ? "..." : "")
-            : "No description",
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub Issue Search Error:", error);
-        return { results: [] };
-      }
+        },
+        searchOptions.signal,
+      );
     },
 
     // Basic suggestion support for common issue labels
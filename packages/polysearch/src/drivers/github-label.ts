@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { AuthError, handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Label Driver Options
 export interface GitHubLabelDriverOptions extends DriverOptions {
@@ -30,6 +32,14 @@ export interface GitHubLabel {
   color: string;
   default: boolean;
   description: string | null;
+  score: number;
+}
+
+// Structured data attached to each label search result
+export interface GitHubLabelResultMeta {
+  name: string;
+  color: string; // Hex color without #
+  default: boolean;
 }
 
 export interface GitHubLabelSearchResponse {
@@ -42,11 +52,29 @@ export default function githubLabelDriver(
   driverOptions: GitHubLabelDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-label");
 
   return {
     name: "github-label",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: true,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      kinds: ["label"],
+      options: {
+        repository_id: {
+          type: "integer",
+          description: "Repository to search labels in",
+        },
+      },
+    },
 
     search: async (
       searchOptions: GitHubLabelSearchOptions,
@@ -59,84 +87,108 @@ export default function githubLabelDriver(
 
       // Label search requires authentication
       if (!token) {
-        console.error("GitHub Label Search requires authentication token");
-        return { results: [] };
+        return handleSearchError(
+          new AuthError("GitHub Label Search requires authentication token"),
+          "github-label",
+          searchOptions.errors ?? driverOptions.errors,
+          logger,
+        );
       }
 
       const limit =
-        searchOptions.per_page || searchOptions.limit || cache.perPage || 30;
+        searchOptions.perPage ||
+        searchOptions.per_page ||
+        searchOptions.limit ||
+        cache.perPage ||
+        30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-label:${query}:${page}:${limit}`;
-
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Build GitHub API query
-        const searchParams = new URLSearchParams({
-          q: query,
-          per_page: Math.min(limit, 100).toString(),
-        });
-
-        // Add repository_id filter if provided
-        if (searchOptions.repository_id) {
-          searchParams.set(
-            "repository_id",
-            searchOptions.repository_id.toString(),
-          );
-        }
-
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
-
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-          Authorization: `Bearer ${token}`,
-        };
-
-        // Make API request to labels endpoint
-        const response: GitHubLabelSearchResponse = await ofetch(
-          `https://api.github.com/search/labels?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
-
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((label): any => ({
-          title: label.name,
-          url: `https://github.com/search?q=label%3A${encodeURIComponent(label.name)}&type=issues`,
-          snippet: label.description || `Label color: ${label.color}`,
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub Label Search Error:", error);
-        return { results: [] };
-      }
+      const cacheKey = getCacheKey("github-label", {
+        ...searchOptions,
+        page,
+        limit,
+      });
+
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const searchParams = new URLSearchParams({
+              q: query,
+              per_page: Math.min(limit, 100).toString(),
+            });
+
+            // Add repository_id filter if provided
+            if (searchOptions.repository_id) {
+              searchParams.set(
+                "repository_id",
+                searchOptions.repository_id.toString(),
+              );
+            }
+
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
+
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+              Authorization: `Bearer ${token}`,
+            };
+
+            // Make API request to labels endpoint
+            const response = await $fetch<GitHubLabelSearchResponse>(
+              `https://api.github.com/search/labels?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
+
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (label): SearchResult<GitHubLabelResultMeta> => ({
+                title: label.name,
+                url: `https://github.com/search?q=label%3A${encodeURIComponent(label.name)}&type=issues`,
+                snippet: label.description || `Label color: ${label.color}`,
+                kind: "label",
+                score: label.score,
+                meta: {
+                  name: label.name,
+                  color: label.color,
+                  default: label.default,
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubLabelResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-label",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // Basic suggestion support for common labels
@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Driver Options
 export interface GitHubRepoDriverOptions extends DriverOptions {
@@ -45,8 +47,22 @@ export interface GitHubRepo {
   owner: {
     login: string;
     id: number;
+    avatar_url: string;
     type: string;
   };
+  score: number;
+}
+
+// Structured data attached to each repository search result
+export interface GitHubRepoResultMeta {
+  fullName: string;
+  stars: number;
+  forks: number;
+  openIssues: number;
+  language: string | null;
+  topics: string[];
+  license: string | null; // SPDX identifier
+  pushedAt: string;
 }
 
 export interface GitHubSearchResponse {
@@ -59,7 +75,9 @@ export default function githubRepoDriver(
   driverOptions: GitHubRepoDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-repo");
 
   // Helper function to build query string with qualifiers
   function buildQuery(
@@ -85,9 +103,16 @@ export default function githubRepoDriver(
         // Only add non-core API parameters as qualifiers
         if (
           key !== "query" &&
+          key !== "page" &&
+          key !== "perPage" &&
+          key !== "cursor" &&
           key !== "limit" &&
+          key !== "logger" &&
+          key !== "cache" &&
           key !== "sort" &&
-          key !== "order"
+          key !== "order" &&
+          key !== "errors" &&
+          key !== "signal"
         ) {
           qualifiers.push(`${key}:${value}`);
         }
@@ -102,6 +127,18 @@ export default function githubRepoDriver(
   return {
     name: "github-repo",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: false,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      sort: ["stars", "forks", "updated", "created"],
+      order: ["asc", "desc"],
+      kinds: ["repo"],
+    },
 
     search: async (
       searchOptions: GitHubRepoSearchOptions,
@@ -112,91 +149,109 @@ export default function githubRepoDriver(
         return { results: [] };
       }
 
-      const limit = searchOptions.limit || cache.perPage || 30;
+      const limit =
+        searchOptions.perPage || searchOptions.limit || cache.perPage || 30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-repo:${query}:${page}:${limit}`;
+      const cacheKey = getCacheKey("github-repo", {
+        ...searchOptions,
+        page,
+        limit,
+      });
 
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const apiQuery = buildQuery(query, searchOptions);
+            const searchParams = new URLSearchParams({
+              q: apiQuery,
+              per_page: Math.min(limit, 100).toString(), // GitHub API limit is 100
+            });
 
-      try {
-        // Build GitHub API query
-        const apiQuery = buildQuery(query, searchOptions);
-        const searchParams = new URLSearchParams({
-          q: apiQuery,
-          per_page: Math.min(limit, 100).toString(), // GitHub API limit is 100
-        });
-
-        // Add sort parameters if provided
-        if (searchOptions.sort) {
-          searchParams.set("sort", searchOptions.sort);
-          if (searchOptions.order) {
-            searchParams.set("order", searchOptions.order);
-          }
-        }
+            // Add sort parameters if provided
+            if (searchOptions.sort) {
+              searchParams.set("sort", searchOptions.sort);
+              if (searchOptions.order) {
+                searchParams.set("order", searchOptions.order);
+              }
+            }
 
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
 
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-        };
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+            };
 
-        if (token) {
-          headers.Authorization = `Bearer ${token}`;
-        }
+            if (token) {
+              headers.Authorization = `Bearer ${token}`;
+            }
 
-        // Make API request
-        const response: GitHubSearchResponse = await ofetch(
-          `https://api.github.com/search/repositories?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
-
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((repo): any => ({
-          title: repo.full_name,
-          url: repo.html_url,
-          snippet: repo.description,
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub Repository Search Error:", error);
-
-        // Handle rate limit errors
-        if (error instanceof Error && error.message.includes("403")) {
-          console.error(
-            "GitHub API rate limit exceeded. Consider using a token.",
-          );
-        }
+            // Make API request
+            const response = await $fetch<GitHubSearchResponse>(
+              `https://api.github.com/search/repositories?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
 
-        return { results: [] };
-      }
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (repo): SearchResult<GitHubRepoResultMeta> => ({
+                title: repo.full_name,
+                url: repo.html_url,
+                snippet: repo.description,
+                kind: "repo",
+                publishedAt: repo.created_at,
+                updatedAt: repo.updated_at,
+                author: repo.owner.login,
+                thumbnail: repo.owner.avatar_url,
+                score: repo.score,
+                meta: {
+                  fullName: repo.full_name,
+                  stars: repo.stargazers_count,
+                  forks: repo.forks_count,
+                  openIssues: repo.open_issues_count,
+                  language: repo.language || null,
+                  topics: repo.topics || [],
+                  license: repo.license?.spdx_id || null,
+                  pushedAt: repo.pushed_at,
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubRepoResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-repo",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // GitHub repository search doesn't support suggestions
@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub Topic Driver Options
 export interface GitHubTopicDriverOptions extends DriverOptions {
@@ -33,6 +35,13 @@ export interface GitHubTopic {
   updated_at: string;
 }
 
+// Structured data attached to each topic search result
+export interface GitHubTopicResultMeta {
+  name: string;
+  featured: boolean;
+  curated: boolean;
+}
+
 export interface GitHubTopicSearchResponse {
   total_count: number;
   incomplete_results: boolean;
@@ -43,11 +52,23 @@ export default function githubTopicDriver(
   driverOptions: GitHubTopicDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-topic");
 
   return {
     name: "github-topic",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: false,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      kinds: ["topic"],
+    },
 
     search: async (
       searchOptions: GitHubTopicSearchOptions,
@@ -59,77 +80,99 @@ export default function githubTopicDriver(
       }
 
       const limit =
-        searchOptions.per_page || searchOptions.limit || cache.perPage || 30;
+        searchOptions.perPage ||
+        searchOptions.per_page ||
+        searchOptions.limit ||
+        cache.perPage ||
+        30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-topic:${query}:${page}:${limit}`;
-
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Build GitHub API query
-        const searchParams = new URLSearchParams({
-          q: query,
-          per_page: Math.min(limit, 100).toString(),
-        });
-
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
-
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-        };
-
-        if (token) {
-          headers.Authorization = `Bearer ${token}`;
-        }
-
-        // Make API request to topics endpoint
-        const response: GitHubTopicSearchResponse = await ofetch(
-          `https://api.github.com/search/topics?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
-
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((topic): any => ({
-          title: topic.display_name,
-          url: `https://github.com/topics/${topic.name}`,
-          snippet:
-            topic.description ||
-            topic.short_description ||
-            `Featured topic: ${topic.display_name}`,
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub Topic Search Error:", error);
-        return { results: [] };
-      }
+      const cacheKey = getCacheKey("github-topic", {
+        ...searchOptions,
+        page,
+        limit,
+      });
+
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const searchParams = new URLSearchParams({
+              q: query,
+              per_page: Math.min(limit, 100).toString(),
+            });
+
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
+
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+            };
+
+            if (token) {
+              headers.Authorization = `Bearer ${token}`;
+            }
+
+            // Make API request to topics endpoint
+            const response = await $fetch<GitHubTopicSearchResponse>(
+              `https://api.github.com/search/topics?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
+
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (topic): SearchResult<GitHubTopicResultMeta> => ({
+                title: topic.display_name || topic.name,
+                url: `https://github.com/topics/${topic.name}`,
+                snippet:
+                  topic.description ||
+                  topic.short_description ||
+                  `Featured topic: ${topic.display_name}`,
+                kind: "topic",
+                publishedAt: topic.created_at,
+                updatedAt: topic.updated_at,
+                score: topic.score,
+                meta: {
+                  name: topic.name,
+                  featured: topic.featured,
+                  curated: topic.curated,
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubTopicResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-topic",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // GitHub topic search doesn't support suggestions
@@ -1,12 +1,14 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // GitHub User Driver Options
 export interface GitHubUserDriverOptions extends DriverOptions {
@@ -54,6 +56,19 @@ export interface GitHubUser {
   following: number;
   created_at: string;
   updated_at: string;
+  score: number;
+}
+
+// Structured data attached to each user search result
+// Profile details are only present when the API includes them
+export interface GitHubUserResultMeta {
+  login: string;
+  type: string; // User or Organization
+  name?: string;
+  company?: string;
+  location?: string;
+  followers?: number;
+  publicRepos?: number;
 }
 
 export interface GitHubUserSearchResponse {
@@ -66,7 +81,9 @@ export default function githubUserDriver(
   driverOptions: GitHubUserDriverOptions = {},
 ): Driver {
   const { token } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "github-user");
 
   // Helper function to build query string with qualifiers
   function buildQuery(
@@ -92,9 +109,16 @@ export default function githubUserDriver(
         // Only add non-core API parameters as qualifiers
         if (
           key !== "query" &&
+          key !== "page" &&
+          key !== "perPage" &&
+          key !== "cursor" &&
           key !== "limit" &&
+          key !== "logger" &&
+          key !== "cache" &&
           key !== "sort" &&
-          key !== "order"
+          key !== "order" &&
+          key !== "errors" &&
+          key !== "signal"
         ) {
           qualifiers.push(`${key}:${value}`);
         }
@@ -109,6 +133,18 @@ export default function githubUserDriver(
   return {
     name: "github-user",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: false,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 100,
+      defaultPerPage: 30,
+      sort: ["followers", "repositories", "joined"],
+      order: ["asc", "desc"],
+      kinds: ["user"],
+    },
 
     search: async (
       searchOptions: GitHubUserSearchOptions,
@@ -119,85 +155,110 @@ export default function githubUserDriver(
         return { results: [] };
       }
 
-      const limit = searchOptions.limit || cache.perPage || 30;
+      const limit =
+        searchOptions.perPage || searchOptions.limit || cache.perPage || 30;
       const page = searchOptions.page || 1;
-      const cacheKey = `github-user:${query}:${page}:${limit}`;
+      const cacheKey = getCacheKey("github-user", {
+        ...searchOptions,
+        page,
+        limit,
+      });
 
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build GitHub API query
+            const apiQuery = buildQuery(query, searchOptions);
+            const searchParams = new URLSearchParams({
+              q: apiQuery,
+              per_page: Math.min(limit, 100).toString(),
+            });
 
-      try {
-        // Build GitHub API query
-        const apiQuery = buildQuery(query, searchOptions);
-        const searchParams = new URLSearchParams({
-          q: apiQuery,
-          per_page: Math.min(limit, 100).toString(),
-        });
-
-        // Add sort parameters if provided
-        if (searchOptions.sort) {
-          searchParams.set("sort", searchOptions.sort);
-          if (searchOptions.order) {
-            searchParams.set("order", searchOptions.order);
-          }
-        }
+            // Add sort parameters if provided
+            if (searchOptions.sort) {
+              searchParams.set("sort", searchOptions.sort);
+              if (searchOptions.order) {
+                searchParams.set("order", searchOptions.order);
+              }
+            }
 
-        // Add page parameter if provided
-        if (page && page > 1) {
-          searchParams.set("page", page.toString());
-        }
+            // Add page parameter if provided
+            if (page && page > 1) {
+              searchParams.set("page", page.toString());
+            }
 
-        // Build headers
-        const headers: Record<string, string> = {
-          Accept: "application/vnd.github+json",
-          "X-GitHub-Api-Version": "2022-11-28",
-        };
+            // Build headers
+            const headers: Record<string, string> = {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+            };
 
-        if (token) {
-          headers.Authorization = `Bearer ${token}`;
-        }
+            if (token) {
+              headers.Authorization = `Bearer ${token}`;
+            }
 
-        // Make API request
-        const response: GitHubUserSearchResponse = await ofetch(
-          `https://api.github.com/search/users?${searchParams}`,
-          {
-            method: "GET",
-            headers,
-          },
-        );
-
-        // Map GitHub response to SearchResult format
-        const results = response.items.map((user): any => ({
-          title: user.login,
-          url: user.html_url,
-          snippet:
-            user.bio ||
-            `${user.name || user.login} - ${user.type} with ${user.public_repos} public repositories`,
-        }));
-
-        // Apply limit if needed
-        const limitedResults = results.slice(0, limit);
-
-        const result: SearchResponse = {
-          results: limitedResults,
-          totalResults: response.total_count,
-          pagination: {
-            page: page,
-            perPage: limit,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("GitHub User Search Error:", error);
-        return { results: [] };
-      }
+            // Make API request
+            const response = await $fetch<GitHubUserSearchResponse>(
+              `https://api.github.com/search/users?${searchParams}`,
+              {
+                method: "GET",
+                signal,
+                headers,
+              },
+            );
+
+            // Map GitHub response to SearchResult format
+            const results = response.items.map(
+              (user): SearchResult<GitHubUserResultMeta> => ({
+                title: user.login,
+                url: user.html_url,
+                snippet:
+                  user.bio ||
+                  `${user.name || user.login} - ${user.type} with ${user.public_repos} public repositories`,
+                kind: "user",
+                publishedAt: user.created_at,
+                updatedAt: user.updated_at,
+                author: user.name || undefined,
+                thumbnail: user.avatar_url,
+                score: user.score,
+                meta: {
+                  login: user.login,
+                  type: user.type,
+                  name: user.name || undefined,
+                  company: user.company || undefined,
+                  location: user.location || undefined,
+                  followers: user.followers,
+                  publicRepos: user.public_repos,
+                },
+              }),
+            );
+
+            // Apply limit if needed
+            const limitedResults = results.slice(0, limit);
+
+            const result: SearchResponse<GitHubUserResultMeta> = {
+              results: limitedResults,
+              totalResults: response.total_count,
+              pagination: {
+                page: page,
+                perPage: limit,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "github-user",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     // GitHub user search doesn't support suggestions
@@ -1,13 +1,16 @@
-import { ofetch } from "ofetch";
+import type { $Fetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SuggestionOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError, handleSuggestError, ParseError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // Google CSE specific search options
 export interface GoogleCSESearchOptions extends SearchOptions {
@@ -70,8 +73,15 @@ export interface GoogleCSESuggestionResponse {
   suggestions: [string, number][];
 }
 
+// Structured data attached to each Google CSE search result
+export interface GoogleCSEResultMeta {
+  visibleUrl?: string; // Display domain (e.g. github.com)
+  formattedUrl?: string; // Display URL
+}
+
 // Google CSE specific response type
-export interface GoogleCSESearchResponse extends SearchResponse {
+export interface GoogleCSESearchResponse
+  extends SearchResponse<GoogleCSEResultMeta> {
   pagination?: GoogleCSEPagination;
 }
 
@@ -83,36 +93,36 @@ export interface GoogleCSEDriverOptions extends DriverOptions {
 // Helper function to get CSE token, version and fexp
 async function getCSEData(
   cx: string,
-): Promise<{ token: string; version: string; fexp: string[] } | null> {
-  try {
-    const url = `https://cse.google.com/cse.js?newwindow=1&hpg=1&cx=${cx}`;
-    const response = await ofetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "*/*",
-        "User-Agent": DEFAULT_USER_AGENT,
-        Referer: `https://cse.google.com/cse?cx=${cx}`,
-      },
-    });
+  $fetch: $Fetch,
+  signal?: AbortSignal,
+): Promise<{ token: string; version: string; fexp: string[] }> {
+  const url = `https://cse.google.com/cse.js?newwindow=1&hpg=1&cx=${cx}`;
+  const response = await $fetch(url, {
+    method: "GET",
+    signal,
+    headers: {
+      Accept: "*/*",
+      "User-Agent": DEFAULT_USER_AGENT,
+      Referer: `https://cse.google.com/cse?cx=${cx}`,
+    },
+  });
+
+  // Extract cse_token from the JavaScript response
+  const tokenMatch = response.match(/"cse_token":\s*"([^"]+)"/);
+  const versionMatch = response.match(/"cselibVersion":\s*"([^"]+)"/);
+  const expMatch = response.match(/"exp":\s*(\[[^\]]*\])/);
 
-    // Extract cse_token from the JavaScript response
-    const tokenMatch = response.match(/"cse_token":\s*"([^"]+)"/);
-    const versionMatch = response.match(/"cselibVersion":\s*"([^"]+)"/);
-    const expMatch = response.match(/"exp":\s*(\[[^\]]*\])/);
-
-    if (!tokenMatch || !versionMatch || !expMatch) {
-      return null;
-    }
-
-    return {
-      token: tokenMatch[1],
-      version: versionMatch[1],
-      fexp: JSON.parse(expMatch[1]),
-    };
-  } catch (error) {
-    console.error("Failed to get CSE data:", error);
-    return null;
+  if (!tokenMatch || !versionMatch || !expMatch) {
+    throw new ParseError("Failed to obtain CSE data", {
+      driver: "google-cse",
+    });
   }
+
+  return {
+    token: tokenMatch[1],
+    version: versionMatch[1],
+    fexp: JSON.parse(expMatch[1]),
+  };
 }
 
 // Default User-Agent header
@@ -123,11 +133,30 @@ export default function googleCSEDriver(
   driverOptions: GoogleCSEDriverOptions,
 ): Driver {
   const { cx } = driverOptions;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "google-cse");
 
   return {
     name: "google-cse",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 20,
+      defaultPerPage: 10,
+      kinds: ["web"],
+      options: {
+        cr: { type: "string", description: "Country restriction" },
+        gl: { type: "string", description: "Country of search" },
+        hl: { type: "string", description: "Interface language" },
+        lr: { type: "string", description: "Language restriction" },
+        safe: { type: "string", enum: ["active", "off"] },
+      },
+    },
 
     search: async (
       searchOptions: GoogleCSESearchOptions,
@@ -140,119 +169,139 @@ export default function googleCSEDriver(
 
       const perPage = searchOptions.perPage || cache.perPage || 10;
       const page = searchOptions.page || 1;
-      const cacheKey = `google-cse:${cx}:${query}:${page}:${perPage}`;
-
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Get CSE data first
-        const cseData = await getCSEData(cx);
-        if (!cseData) {
-          throw new Error("Failed to obtain CSE data");
-        }
-
-        // Build search URL
-        const url = new URL("https://cse.google.com/cse/element/v1");
-        url.searchParams.set("rsz", "filtered_cse");
-        url.searchParams.set("num", perPage.toString());
-        url.searchParams.set("hl", searchOptions.hl || "en");
-        url.searchParams.set("source", "gcsc");
-        url.searchParams.set("cx", cx);
-        url.searchParams.set("q", query);
-        url.searchParams.set("safe", searchOptions.safe || "active");
-        url.searchParams.set("start", ((page - 1) * perPage + 1).toString());
-
-        // Optional Google CSE specific parameters
-        if (searchOptions.cr) url.searchParams.set("cr", searchOptions.cr);
-        if (searchOptions.gl) url.searchParams.set("gl", searchOptions.gl);
-        if (searchOptions.lr) url.searchParams.set("lr", searchOptions.lr);
-
-        url.searchParams.set("cse_tok", cseData.token);
-        url.searchParams.set("cselibv", cseData.version);
-        url.searchParams.set("exp", cseData.fexp.join(","));
-        url.searchParams.set("cseclient", "hosted-page-client");
-        url.searchParams.set("rurl", `https://cse.google.com/cse?cx=${cx}`);
-
-        // Generate random callback name matching the format from cse_token.ts
-        const callbackName = `google_search_cse_api_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-        url.searchParams.set("callback", callbackName);
-
-        // Send request with proper headers
-        const response = await ofetch(url.toString(), {
-          method: "GET",
-          headers: {
-            Accept: "*/*",
-            "User-Agent": searchOptions.userAgent || DEFAULT_USER_AGENT,
-            Referer: `https://cse.google.com/cse?cx=${cx}`,
-            "sec-fetch-dest": "script",
-            "sec-fetch-mode": "no-cors",
-            "sec-fetch-site": "same-origin",
-          },
-        });
-
-        // Parse JSONP response
-        // Response format: callbackName({results: [...], cursor: {...}})
-        let responseText: string;
-        if (typeof response === "string") {
-          responseText = response;
-        } else if (response && typeof response.text === "function") {
-          responseText = await response.text();
-        } else {
-          responseText = String(response);
-        }
-
-        // Remove the comment line at the beginning
-        const cleanResponse = responseText.replace(/\/\*O_o\*\/\n/, "");
-
-        // Match the JSONP callback and capture the JSON content (including newlines)
-        const jsonpMatch = cleanResponse.match(
-          new RegExp(
-            `${callbackName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\((.*)\\);?$`,
-            "s",
-          ),
-        );
-        if (!jsonpMatch) {
-          return { results: [] };
-        }
-
-        const data: GoogleCSEResponse = JSON.parse(jsonpMatch[1]);
-
-        // Extract search results
-        const results = Array.isArray(data.results)
-          ? data.results.map((item: GoogleCSEResult) => ({
-              title: item.titleNoFormatting || item.title || "",
-              url: item.unescapedUrl || item.url || "",
-              snippet: item.contentNoFormatting || item.content || undefined,
-            }))
-          : [];
-
-        // Extract metadata from cursor
-        const cursor: GoogleCSECursor = data.cursor || {};
-        const totalResults = cursor.estimatedResultCount
-          ? parseInt(cursor.estimatedResultCount.replace(/,/g, ""))
-          : undefined;
-
-        const result: GoogleCSESearchResponse = {
-          results,
-          totalResults,
-          pagination: {
-            page: page,
-            perPage: perPage,
-          },
-        };
-
-        // Cache the result
-        await cache.set(cacheKey, result);
-
-        return result;
-      } catch (error) {
-        console.error("Google CSE search error:", error);
-        return { results: [] };
-      }
+      const cacheKey = getCacheKey("google-cse", {
+        ...searchOptions,
+        page,
+        perPage,
+        cx,
+      });
+
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Get CSE data first
+            const cseData = await getCSEData(cx, $fetch, signal);
+
+            // Build search URL
+            const url = new URL("https://cse.google.com/cse/element/v1");
+            url.searchParams.set("rsz", "filtered_cse");
+            url.searchParams.set("num", perPage.toString());
+            url.searchParams.set("hl", searchOptions.hl || "en");
+            url.searchParams.set("source", "gcsc");
+            url.searchParams.set("cx", cx);
+            url.searchParams.set("q", query);
+            url.searchParams.set("safe", searchOptions.safe || "active");
+            url.searchParams.set(
+              "start",
+              ((page - 1) * perPage + 1).toString(),
+            );
+
+            // Optional Google CSE specific parameters
+            if (searchOptions.cr) url.searchParams.set("cr", searchOptions.cr);
+            if (searchOptions.gl) url.searchParams.set("gl", searchOptions.gl);
+            if (searchOptions.lr) url.searchParams.set("lr", searchOptions.lr);
+
+            url.searchParams.set("cse_tok", cseData.token);
+            url.searchParams.set("cselibv", cseData.version);
+            url.searchParams.set("exp", cseData.fexp.join(","));
+            url.searchParams.set("cseclient", "hosted-page-client");
+            url.searchParams.set("rurl", `https://cse.google.com/cse?cx=${cx}`);
+
+            // Generate random callback name matching the format from cse_token.ts
+            const callbackName = `google_search_cse_api_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+            url.searchParams.set("callback", callbackName);
+
+            // Send request with proper headers
+            const response = await $fetch(url.toString(), {
+              method: "GET",
+              signal,
+              headers: {
+                Accept: "*/*",
+                "User-Agent": searchOptions.userAgent || DEFAULT_USER_AGENT,
+                Referer: `https://cse.google.com/cse?cx=${cx}`,
+                "sec-fetch-dest": "script",
+                "sec-fetch-mode": "no-cors",
+                "sec-fetch-site": "same-origin",
+              },
+            });
+
+            // Parse JSONP response
+            // Response format: callbackName({results: [...], cursor: {...}})
+            let responseText: string;
+            if (typeof response === "string") {
+              responseText = response;
+            } else if (response && typeof response.text === "function") {
+              responseText = await response.text();
+            } else {
+              responseText = String(response);
+            }
+
+            // Remove the comment line at the beginning
+            const cleanResponse = responseText.replace(/\/\*O_o\*\/\n/, "");
+
+            // Match the JSONP callback and capture the JSON content (including newlines)
+            const jsonpMatch = cleanResponse.match(
+              new RegExp(
+                `${callbackName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\((.*)\\);?$`,
+                "s",
+              ),
+            );
+            if (!jsonpMatch) {
+              throw new ParseError("Unexpected Google CSE response format", {
+                driver: "google-cse",
+              });
+            }
+
+            const data: GoogleCSEResponse = JSON.parse(jsonpMatch[1]);
+
+            // Extract search results
+            const results = Array.isArray(data.results)
+              ? data.results.map(
+                  (
+                    item: GoogleCSEResult,
+                  ): SearchResult<GoogleCSEResultMeta> => ({
+                    title: item.titleNoFormatting || item.title || "",
+                    url: item.unescapedUrl || item.url || "",
+                    snippet:
+                      item.contentNoFormatting || item.content || undefined,
+                    kind: "web",
+                    meta: {
+                      visibleUrl: item.visibleUrl,
+                      formattedUrl: item.formattedUrl,
+                    },
+                  }),
+                )
+              : [];
+
+            // Extract metadata from cursor
+            const cursor: GoogleCSECursor = data.cursor || {};
+            const totalResults = cursor.estimatedResultCount
+              ? parseInt(cursor.estimatedResultCount.replace(/,/g, ""))
+              : undefined;
+
+            const result: GoogleCSESearchResponse = {
+              results,
+              totalResults,
+              pagination: {
+                page: page,
+                perPage: perPage,
+              },
+            };
+
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "google-cse",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     suggest: async (
@@ -275,8 +324,9 @@ export default function googleCSEDriver(
         url.searchParams.set("hl", suggestOptions.hl || "en");
 
         // Send request
-        const response = await ofetch(url.toString(), {
+        const response = await $fetch(url.toString(), {
           method: "GET",
+          signal: suggestOptions.signal,
           headers: {
             Accept: "*/*",
           },
@@ -286,7 +336,9 @@ export default function googleCSEDriver(
         // Response format: window.google.ac.h(["query", [["suggestion1", 0], ["suggestion2", 0]], {...}])
         const jsonpMatch = response.match(/window\.google\.ac\.h\((.*)\)/);
         if (!jsonpMatch) {
-          return [];
+          throw new ParseError("Unexpected Google CSE suggestion format", {
+            driver: "google-cse",
+          });
         }
 
         const data = JSON.parse(jsonpMatch[1]);
@@ -298,8 +350,12 @@ export default function googleCSEDriver(
 
         return [];
       } catch (error) {
-        console.error("Google CSE autocomplete error:", error);
-        return [];
+        return handleSuggestError(
+          error,
+          "google-cse",
+          suggestOptions.errors ?? driverOptions.errors,
+          logger,
+        );
       }
     },
   };
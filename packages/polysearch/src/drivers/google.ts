@@ -1,5 +1,6 @@
-import { ofetch } from "ofetch";
 import type { Driver, DriverOptions, SuggestionOptions } from "..";
+import { handleSuggestError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // Google Suggestion specific options
 export interface GoogleSuggestionOptions extends SuggestionOptions {
@@ -22,9 +23,18 @@ const DEFAULT_USER_AGENT =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36";
 
 export default function googleDriver(options: DriverOptions = {}): Driver {
+  const logger = createLogger(options.logger);
+  const $fetch = createLoggedFetch(logger, "google");
+
   return {
     name: "google",
     options,
+    capabilities: {
+      search: false,
+      suggest: true,
+      requiresAuth: false,
+      pagination: false,
+    },
 
     search: async (): Promise<any> => {
       throw new Error(
@@ -50,8 +60,9 @@ export default function googleDriver(options: DriverOptions = {}): Driver {
         url.searchParams.set("hl", suggestOptions.hl || "en");
 
         // Send request with proper headers
-        const response = await ofetch(url.toString(), {
+        const response = await $fetch(url.toString(), {
           method: "GET",
+          signal: suggestOptions.signal,
           headers: {
             Accept: "*/*",
             "User-Agent": suggestOptions.userAgent || DEFAULT_USER_AGENT,
@@ -91,8 +102,12 @@ export default function googleDriver(options: DriverOptions = {}): Driver {
 
         return [];
       } catch (error) {
-        console.error("Google autocomplete error:", error);
-        return [];
+        return handleSuggestError(
+          error,
+          "google",
+          suggestOptions.errors ?? options.errors,
+          logger,
+        );
       }
     },
   };
@@ -1,4 +1,3 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
@@ -6,6 +5,8 @@ import type {
   SearchOptions,
   SearchResponse,
 } from "..";
+import { handleSearchError, handleSuggestError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 export interface HTTPDriverOptions extends DriverOptions {
   baseURL: string;
@@ -13,12 +14,30 @@ export interface HTTPDriverOptions extends DriverOptions {
   headers?: Record<string, string>;
 }
 
+// ofetch ignores its timeout when a signal is given, so combine both
+function withTimeoutSignal(
+  timeout: number,
+  signal?: AbortSignal,
+): AbortSignal | undefined {
+  return signal
+    ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+    : undefined;
+}
+
 export default function httpDriver(options: HTTPDriverOptions): Driver {
   const { baseURL, timeout = 5000, headers = {} } = options;
+  const logger = createLogger(options.logger);
+  const $fetch = createLoggedFetch(logger, "http");
 
   return {
     name: "http",
     options,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: false,
+      pagination: true,
+    },
 
     search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
       const { query } = searchOptions;
@@ -31,7 +50,7 @@ export default function httpDriver(options: HTTPDriverOptions): Driver {
         const url = new URL("/search", baseURL);
 
         Object.entries(searchOptions).forEach(([key, value]) => {
-          if (value === undefined || value === null) return;
+          if (value === undefined || value === null || key === "signal") return;
 
           if (key === "cache") {
             url.searchParams.set(key, JSON.stringify(value));
@@ -42,21 +61,26 @@ export default function httpDriver(options: HTTPDriverOptions): Driver {
           }
         });
 
-        const response = await ofetch<SearchResponse>(url.toString(), {
+        const response = await $fetch<SearchResponse>(url.toString(), {
           method: "GET",
+          signal: withTimeoutSignal(timeout, searchOptions.signal),
           timeout,
           headers,
         });
 
         return response;
       } catch (error) {
-        console.error("HTTP search error:", error);
-        return { results: [] };
+        return handleSearchError(
+          error,
+          "http",
+          searchOptions.errors ?? options.errors,
+          logger,
+        );
       }
     },
 
-    suggest: async (options: SuggestionOptions): Promise<string[]> => {
-      const { query } = options;
+    suggest: async (suggestOptions: SuggestionOptions): Promise<string[]> => {
+      const { query } = suggestOptions;
 
       if (!query.trim()) {
         return [];
@@ -65,8 +89,8 @@ export default function httpDriver(options: HTTPDriverOptions): Driver {
       try {
         const url = new URL("/suggest", baseURL);
 
-        Object.entries(options).forEach(([key, value]) => {
-          if (value === undefined || value === null) return;
+        Object.entries(suggestOptions).forEach(([key, value]) => {
+          if (value === undefined || value === null || key === "signal") return;
 
           if (typeof value === "object") {
             url.searchParams.set(key, JSON.stringify(value));
@@ -75,8 +99,9 @@ export default function httpDriver(options: HTTPDriverOptions): Driver {
           }
         });
 
-        const response = await ofetch(url.toString(), {
+        const response = await $fetch(url.toString(), {
           method: "GET",
+          signal: withTimeoutSignal(timeout, suggestOptions.signal),
           timeout,
           headers,
         });
@@ -96,8 +121,12 @@ export default function httpDriver(options: HTTPDriverOptions): Driver {
 
         return [];
       } catch (error) {
-        console.error("HTTP suggest error:", error);
-        return [];
+        return handleSuggestError(
+          error,
+          "http",
+          suggestOptions.errors ?? options.errors,
+          logger,
+        );
       }
     },
   };
@@ -6,8 +6,24 @@ import type {
   SearchResponse,
   CacheConfig,
   SearchResult,
+  SearchError,
+  CircuitBreakerOptions,
+  Suggestion,
 } from "..";
 import { createCache } from "../cache";
+import { mergeCapabilities, resolveCapabilities } from "../capabilities";
+import {
+  CircuitOpenError,
+  InvalidRequestError,
+  isAbortError,
+  PolySearchError,
+  toPolySearchError,
+  withTimeout,
+} from "../errors";
+import { createHealthTracker } from "../health";
+import { createLogger } from "../logger";
+import { getShingles, jaccardSimilarity } from "../similarity";
+import { canonicalizeUrl, type CanonicalizeUrlOptions } from "../url";
 
 // HybridDriver specific options
 export interface HybridDriverOptions extends DriverOptions {
@@ -17,76 +33,190 @@ export interface HybridDriverOptions extends DriverOptions {
     timeout?: number; // Timeout in ms for this specific driver
   }>;
   cache?: CacheConfig;
+  ranking?: HybridRankingOptions; // Default: weighted-rank
+  circuitBreaker?: CircuitBreakerOptions | false; // Skip failing drivers (false to always query them)
+  bangs?: Record<string, string | string[]>; // Bang to driver names, e.g. { npm: "npm" } for "!npm vue"
+  routes?: HybridRoute[]; // First matching route selects the drivers of a query
+  fallback?: string[]; // Drivers tried one by one when the selected drivers return no results
+  deduplication?: HybridDeduplicationOptions;
 }
 
-// Weighted search result for internal processing
-interface WeightedSearchResult {
-  title: string;
-  url: string;
-  snippet?: string;
-  weight: number;
+// How duplicates are detected when merging results
+export interface HybridDeduplicationOptions {
+  url?: CanonicalizeUrlOptions; // Canonicalization of result URLs
+  similarity?: boolean | HybridSimilarityOptions; // Merge mirror pages with similar title and snippet (default: false)
+}
+
+export interface HybridSimilarityOptions {
+  threshold?: number; // Jaccard similarity of title and snippet shingles to merge results (default: 0.7)
+  shingleSize?: number; // Words per shingle (default: 3)
+}
+
+// Send queries matching a pattern or predicate to some drivers only
+export interface HybridRoute {
+  match: RegExp | ((query: string) => boolean);
+  drivers: string | string[]; // Driver names
+}
+
+// How results from several drivers are blended
+// - weighted-rank: rank / weight of the best source (default)
+// - rrf: reciprocal rank fusion, sum of weight / (k + rank) over all sources
+// - round-robin: interleave drivers by rank
+// - custom: score results with a callback
+export type HybridRankingStrategy =
+  | "weighted-rank"
+  | "rrf"
+  | "round-robin"
+  | "custom";
+
+export interface HybridRankingOptions {
+  strategy?: HybridRankingStrategy;
+  k?: number; // RRF constant (default: 60)
+  score?: (result: HybridRankedResult) => number; // Required for custom, higher comes first
+  debug?: boolean; // Add ranking details to each result
+}
+
+// Deduplicated result with the rank it got from each driver
+export interface HybridRankedResult extends SearchResult {
+  weight: number; // Weight of the driver the content was taken from
   sources: string[]; // Array of driver names that returned this result
-  rank: number; // Original rank in the driver's results (1-based)
+  rank: number; // Original rank in that driver's results (1-based)
+  ranks: Record<string, number>; // Best rank in each driver's results
+  weights: Record<string, number>; // Weight of each driver that returned this result
+  urls: string[]; // URLs of the results merged into this one
 }
 
-// Normalize URL for deduplication by handling trailing slashes, www prefix, and tracking parameters
-function normalizeUrl(url: string): string {
-  try {
-    let normalized = url.trim().toLowerCase();
+// Progress of a driver during a search
+interface DriverProgress {
+  offset: number; // Results consumed by previous pages
+  nextPage: number;
+  done: boolean; // Returned a short page
+  failed: boolean;
+  fetched: Array<{ rank: number; key: string }>; // Results fetched after the offset
+}
 
-    // Remove www. prefix
-    if (normalized.startsWith("www.")) {
-      normalized = normalized.substring(4);
-    }
+// Pagination state of a hybrid search, passed between pages as an opaque cursor
+// Cursors only hold ranks and URL hashes: pages with unreturned results are fetched again
+interface HybridCursor {
+  query: string; // Query the cursor was created for
+  page: number; // Last returned page
+  pageSize: number; // Page size used to query drivers
+  offsets: Record<string, number>; // Results consumed from each driver (by rank)
+  done: string[]; // Drivers without more results
+  seen: string; // Concatenated hashes of the most recent URLs returned
+}
 
-    // Remove trailing slash
-    if (normalized.endsWith("/")) {
-      normalized = normalized.slice(0, -1);
-    }
+// Number of URL hashes kept in a cursor (older results may be returned again)
+const maxSeenHashes = 200;
 
-    // Remove common tracking parameters (UTM, Facebook Click ID, Google Click ID)
-    const urlObj = new URL(normalized);
-    const paramsToRemove = [
-      "utm_source",
-      "utm_medium",
-      "utm_campaign",
-      "utm_term",
-      "utm_content",
-      "fbclid",
-      "gclid",
-    ];
-    paramsToRemove.forEach((param) => urlObj.searchParams.delete(param));
-
-    return urlObj.toString();
+// Short hash of a canonical URL (FNV-1a) to keep cursors small
+function hashUrl(url: string, options?: CanonicalizeUrlOptions): string {
+  let hash = 0x811c9dc5;
+  for (const char of canonicalizeUrl(url, options)) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Encode a cursor as URL-safe base64 JSON
+function encodeCursor(cursor: HybridCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCodePoint(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+}
+
+// Decode a cursor, rejecting malformed cursors and cursors of another query
+function decodeCursor(value: string, query: string): HybridCursor {
+  let cursor: HybridCursor;
+  try {
+    const binary = atob(value.replaceAll("-", "+").replaceAll("_", "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.codePointAt(0)!);
+    cursor = JSON.parse(new TextDecoder().decode(bytes));
   } catch {
-    // If URL parsing fails, return trimmed lowercase version
-    return url.trim().toLowerCase();
+    throw new InvalidRequestError("Invalid pagination cursor");
   }
+
+  const isCount = (value: unknown, min: number) =>
+    Number.isSafeInteger(value) && (value as number) >= min;
+  if (
+    typeof cursor !== "object" ||
+    cursor === null ||
+    typeof cursor.query !== "string" ||
+    !isCount(cursor.page, 1) ||
+    !isCount(cursor.pageSize, 1) ||
+    typeof cursor.offsets !== "object" ||
+    cursor.offsets === null ||
+    Array.isArray(cursor.offsets) ||
+    !Object.values(cursor.offsets).every((offset) => isCount(offset, 0)) ||
+    !Array.isArray(cursor.done) ||
+    !cursor.done.every((name) => typeof name === "string") ||
+    typeof cursor.seen !== "string" ||
+    !/^(?:[\da-f]{8})*$/.test(cursor.seen)
+  ) {
+    throw new InvalidRequestError("Invalid pagination cursor");
+  }
+  if (cursor.query !== query) {
+    throw new InvalidRequestError("Pagination cursor does not match the query");
+  }
+
+  return cursor;
 }
 
-// Deduplicate results by URL, merging sources and keeping higher weighted results
+// Deduplicate results by canonical URL, and by similar title and snippet when enabled,
+// merging sources and keeping higher weighted results
 function deduplicateResults(
-  results: WeightedSearchResult[],
-): WeightedSearchResult[] {
-  const urlMap = new Map<string, WeightedSearchResult>();
+  results: HybridRankedResult[],
+  urlOptions?: CanonicalizeUrlOptions,
+  similarity?: Required<HybridSimilarityOptions>,
+): HybridRankedResult[] {
+  const urlMap = new Map<string, HybridRankedResult>();
+  const shingles = new Map<string, Set<string>>(); // Shingles of each kept result
 
   for (const result of results) {
-    const normalizedUrl = normalizeUrl(result.url);
-    const existing = urlMap.get(normalizedUrl);
+    let key = canonicalizeUrl(result.url, urlOptions);
+    let existing = urlMap.get(key);
+
+    // Mirror pages have another URL but the same title and snippet
+    if (!existing && similarity) {
+      const resultShingles = getShingles(
+        `${result.title} ${result.snippet || ""}`,
+        similarity.shingleSize,
+      );
+      for (const [otherKey, otherShingles] of shingles) {
+        if (
+          jaccardSimilarity(resultShingles, otherShingles) >=
+          similarity.threshold
+        ) {
+          key = otherKey;
+          existing = urlMap.get(otherKey);
+          break;
+        }
+      }
+      if (!existing) {
+        shingles.set(key, resultShingles);
+      }
+    }
 
     if (!existing) {
       // First time seeing this URL
-      urlMap.set(normalizedUrl, result);
+      urlMap.set(key, result);
     } else {
-      // Merge sources from multiple drivers
+      // Merge sources and per-driver ranks from multiple drivers
       existing.sources = [...new Set([...existing.sources, ...result.sources])];
+      existing.urls = [...new Set([...existing.urls, ...result.urls])];
+      for (const [driver, rank] of Object.entries(result.ranks)) {
+        existing.ranks[driver] = Math.min(existing.ranks[driver] ?? rank, rank);
+      }
+      Object.assign(existing.weights, result.weights);
 
-      // If new result has higher weight, take its content (title, snippet)
+      // If new result has higher weight, take its content (title, snippet, metadata)
+      // and its rank from the higher weighted driver
       if (result.weight > existing.weight) {
-        existing.weight = result.weight;
-        existing.title = result.title;
-        existing.snippet = result.snippet;
-        existing.rank = result.rank; // Take the better rank from higher weighted driver
+        const { sources, ranks, weights, urls } = existing;
+        urlMap.set(key, { ...result, sources, ranks, weights, urls });
       }
       // If same weight but better rank, update rank
       else if (
@@ -98,50 +228,91 @@ function deduplicateResults(
     }
   }
 
-  // Sort by weighted score: rank / weight (ascending), then by weight (descending)
-  const finalResults = Array.from(urlMap.values()).sort((a, b) => {
-    // Calculate weighted score (lower is better)
-    const scoreA = a.rank / a.weight;
-    const scoreB = b.rank / b.weight;
+  return Array.from(urlMap.values());
+}
 
-    if (scoreA !== scoreB) {
-      return scoreA - scoreB; // Lower score comes first
+// Score a result with the ranking strategy (higher is better)
+function scoreResult(
+  result: HybridRankedResult,
+  ranking: HybridRankingOptions,
+): number {
+  switch (ranking.strategy) {
+    case "rrf": {
+      const k = ranking.k ?? 60;
+      return Object.entries(result.ranks).reduce(
+        (score, [driver, rank]) =>
+          score + (result.weights[driver] ?? 1) / (k + rank),
+        0,
+      );
     }
-
-    // If scores are equal, higher weight comes first
-    return b.weight - a.weight;
-  });
-
-  return finalResults;
+    case "round-robin": {
+      return 1 / Math.min(...Object.values(result.ranks));
+    }
+    case "custom": {
+      return ranking.score?.(result) ?? 0;
+    }
+    default: {
+      return result.weight / result.rank;
+    }
+  }
 }
 
-// Helper function to deduplicate suggestions
-function deduplicateSuggestions(suggestions: string[]): string[] {
-  const seen = new Set<string>();
-  const unique: string[] = [];
+// Sort results by score, then by weight (the sort is stable, so ties keep driver order)
+function rankResults(
+  results: HybridRankedResult[],
+  ranking: HybridRankingOptions,
+): Array<{ result: HybridRankedResult; score: number }> {
+  return results
+    .map((result) => ({ result, score: scoreResult(result, ranking) }))
+    .sort((a, b) => b.score - a.score || b.result.weight - a.result.weight);
+}
 
-  for (const suggestion of suggestions) {
-    const normalized = suggestion.toLowerCase().trim();
-    if (!seen.has(normalized) && normalized.length > 0) {
-      seen.add(normalized);
-      unique.push(suggestion);
+// Rank constant of suggestion fusion, lower values favor the first suggestions of each driver
+const suggestionRankConstant = 10;
+
+// Merge suggestions of several drivers, ignoring case and whitespace
+// Each driver adds weight / (k + rank), so suggestions returned by several drivers rank higher,
+// and suggestions starting with the query come first
+function fuseSuggestions(
+  lists: Array<{ weight: number; suggestions: Suggestion[] }>,
+  query: string,
+): Suggestion[] {
+  const merged = new Map<string, Suggestion & { score: number }>();
+
+  for (const { weight, suggestions } of lists) {
+    const seen = new Set<string>();
+    for (const [index, suggestion] of suggestions.entries()) {
+      const key = suggestion.text.toLowerCase().trim().replace(/\s+/g, " ");
+      if (!key || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const score = weight / (suggestionRankConstant + index + 1);
+      const existing = merged.get(key);
+      if (existing) {
+        existing.score += score;
+        existing.sources = [
+          ...new Set([...existing.sources, ...suggestion.sources]),
+        ];
+      } else {
+        merged.set(key, {
+          text: suggestion.text.trim(),
+          sources: [...suggestion.sources],
+          score,
+        });
+      }
     }
   }
 
-  return unique;
-}
+  const prefix = query.toLowerCase().trim();
+  const isPrefixMatch = (suggestion: Suggestion) =>
+    suggestion.text.toLowerCase().startsWith(prefix);
 
-// Helper function to create timeout wrapper
-function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number,
-  errorMessage: string,
-): Promise<T> {
-  const timeoutPromise = new Promise<T>((_, reject) => {
-    setTimeout(() => reject(new Error(errorMessage)), timeoutMs);
-  });
-
-  return Promise.race([promise, timeoutPromise]);
+  return [...merged.values()].sort(
+    (a, b) =>
+      Number(isPrefixMatch(b)) - Number(isPrefixMatch(a)) || b.score - a.score,
+  );
 }
 
 export default function hybridDriver(options: HybridDriverOptions): Driver {
@@ -151,7 +322,27 @@ export default function hybridDriver(options: HybridDriverOptions): Driver {
     throw new Error("HybridDriver requires at least one driver");
   }
 
-  createCache(cacheConfig);
+  const logger = createLogger(options.logger);
+  createCache(cacheConfig, logger);
+  const health = createHealthTracker(options.circuitBreaker);
+
+  const urlOptions = options.deduplication?.url;
+  const similarity = options.deduplication?.similarity
+    ? {
+        threshold: 0.7,
+        shingleSize: 3,
+        ...(typeof options.deduplication.similarity === "object" &&
+          options.deduplication.similarity),
+      }
+    : undefined;
+
+  const ranking: HybridRankingOptions & { strategy: HybridRankingStrategy } = {
+    ...options.ranking,
+    strategy: options.ranking?.strategy ?? "weighted-rank",
+  };
+  if (ranking.strategy === "custom" && !ranking.score) {
+    throw new Error("Custom ranking requires a score function");
+  }
 
   // Normalize driver configurations
   const normalizedDrivers = drivers.map(
@@ -162,107 +353,218 @@ export default function hybridDriver(options: HybridDriverOptions): Driver {
     }),
   );
 
-  return {
-    name: "hybrid",
-    options,
+  // Resolve driver names used in routing options
+  const driversByName = new Map(
+    normalizedDrivers.map((entry) => [entry.driver.name || "unknown", entry]),
+  );
+  const resolveDrivers = (names: string | string[]) =>
+    [names].flat().map((name) => {
+      const entry = driversByName.get(name);
+      if (!entry) {
+        throw new Error(`Unknown driver "${name}" in hybrid routing`);
+      }
+      return entry;
+    });
+
+  const bangs = new Map(
+    Object.entries(options.bangs || {}).map(([bang, names]) => [
+      bang.replace(/^!/, "").toLowerCase(),
+      resolveDrivers(names),
+    ]),
+  );
+  const routes = (options.routes || []).map((route) => ({
+    match: route.match,
+    drivers: resolveDrivers(route.drivers),
+  }));
+  const fallbackDrivers = resolveDrivers(options.fallback || []);
+
+  // Select the drivers of a query from its bang ("!npm vue" or "vue !npm")
+  // or the first matching route, bangs are removed from the query
+  const routeQuery = (query: string) => {
+    const trimmed = query.trim();
+    const prefix = /^!(\S+)\s+(.+)$/s.exec(trimmed);
+    const suffix = /^(.+)\s+!(\S+)$/s.exec(trimmed);
+    const [bang, rest] = prefix
+      ? [prefix[1], prefix[2]]
+      : suffix
+        ? [suffix[2], suffix[1]]
+        : [];
+
+    const bangDrivers = bang ? bangs.get(bang.toLowerCase()) : undefined;
+    if (bang && rest && bangDrivers) {
+      return { query: rest, bang, drivers: bangDrivers };
+    }
 
-    search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
-      const { query, page = 1, perPage = 10 } = searchOptions;
+    const route = routes.find(({ match }) =>
+      typeof match === "function" ? match(trimmed) : match.test(trimmed),
+    );
+    return { query, drivers: route?.drivers ?? normalizedDrivers };
+  };
 
-      if (!query.trim()) {
-        return { results: [] };
-      }
+  // Search all drivers, yielding a merged snapshot each time a driver answers
+  // The last snapshot is the complete response (with the next cursor)
+  async function* searchSnapshots(
+    searchOptions: SearchOptions,
+  ): AsyncGenerator<SearchResponse> {
+    const { perPage = 10, signal } = searchOptions;
+    const mode = searchOptions.errors ?? options.errors;
+
+    if (!searchOptions.query.trim()) {
+      yield { results: [] };
+      return;
+    }
 
-      // Dynamically fetch results from all drivers
-      const targetCount = page * perPage;
-      let driverPage = 1;
-      const maxPages = 5; // Safety limit
-
-      let allResults: WeightedSearchResult[] = [];
-
-      // Collect totals from all drivers (only once per driver)
-      const driverTotals = new Map<string, number>();
-
-      while (allResults.length < targetCount && driverPage <= maxPages) {
-        // Fetch current page from all drivers
-        const driverPromises = normalizedDrivers.map(
-          async ({ driver, weight, timeout }) => {
-            const searchPromise = Promise.resolve(
-              driver.search({ query, page: driverPage, perPage }),
-            );
-            const result = timeout
-              ? await withTimeout(
-                  searchPromise,
-                  timeout,
-                  `Driver ${driver.name} timed out after ${timeout}ms`,
-                )
-              : await searchPromise;
-
-            // Collect total from this driver (only first time we see it)
-            const driverName = driver.name || "unknown";
-            if (!driverTotals.has(driverName)) {
-              const driverTotal = result.totalResults;
-              if (driverTotal !== undefined && driverTotal > 0) {
-                driverTotals.set(driverName, driverTotal);
-              }
-            }
+    // Continue from a cursor, or start from scratch for page-based requests
+    const cursor = searchOptions.cursor
+      ? decodeCursor(searchOptions.cursor, searchOptions.query)
+      : undefined;
+    const { query, drivers: routedDrivers } = routeQuery(searchOptions.query);
+
+    // Drivers queried in turn: the routed drivers, then each fallback driver
+    // Next pages of a cursor query the drivers of its first page
+    // Drivers without search support (e.g. suggestion-only drivers) are skipped
+    const driverGroups = (
+      cursor
+        ? [
+            normalizedDrivers.filter(
+              ({ driver }) => (driver.name || "unknown") in cursor.offsets,
+            ),
+          ]
+        : [routedDrivers, ...fallbackDrivers.map((entry) => [entry])]
+    ).map((group) =>
+      group.filter(({ driver }) => resolveCapabilities(driver).search),
+    );
+    const page = cursor ? cursor.page + 1 : searchOptions.page || 1;
+    const pageSize = cursor?.pageSize ?? perPage;
+    const seen = new Set(cursor?.seen.match(/.{8}/g));
+
+    // Number of ranked results needed (page-based requests re-rank all previous pages)
+    const start = cursor ? 0 : (page - 1) * perPage;
+    const targetCount = start + perPage;
+    const maxPages = 5; // Safety limit
+
+    // Progress of each queried driver, starting after the results consumed by previous pages
+    const progress = new Map<string, DriverProgress>();
+
+    let allResults: HybridRankedResult[] = [];
+
+    // Collect totals from all drivers (only once per driver)
+    const driverTotals = new Map<string, number>();
+
+    // Collect failures from all drivers (only first failure per driver)
+    const driverErrors = new Map<string, SearchError>();
+    let firstError: PolySearchError | undefined;
+    let hasSucceeded = false;
+
+    // Fetch a page from a driver
+    const fetchPage = async ({
+      driver,
+      weight,
+      timeout,
+    }: (typeof normalizedDrivers)[number]) => {
+      const driverName = driver.name || "unknown";
+      const driverPage = progress.get(driverName)!.nextPage;
+
+      // Skip drivers that keep failing until their circuit is probed again
+      if (!health.canRequest(driverName)) {
+        const retryAt = health.retryAt(driverName) ?? Date.now();
+        throw new CircuitOpenError(`Driver ${driverName} is unavailable`, {
+          driver: driverName,
+          retryAfter: Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)),
+        });
+      }
 
-            return {
-              driverName,
-              weight,
-              results: result.results || [],
-            };
-          },
+      const startTime = performance.now();
+
+      // Sub-drivers throw so that failures can be reported here
+      const result = await withTimeout(
+        (driverSignal) =>
+          driver.search({
+            query,
+            page: driverPage,
+            perPage: pageSize,
+            errors: "throw",
+            signal: driverSignal,
+          }),
+        timeout,
+        `Driver ${driver.name} timed out after ${timeout}ms`,
+        driverName,
+        signal,
+      ).catch((error) => {
+        if (isAbortError(error)) {
+          health.release(driverName);
+          throw error;
+        }
+        const searchError = toPolySearchError(error, driverName);
+        health.record(
+          driverName,
+          performance.now() - startTime,
+          searchError.toJSON(),
         );
+        throw searchError;
+      });
 
-        const driverResults = await Promise.allSettled(driverPromises);
-
-        // Process results from this page
-        for (const promiseResult of driverResults) {
-          if (promiseResult.status === "fulfilled") {
-            const { driverName, weight, results } = promiseResult.value;
+      health.record(driverName, performance.now() - startTime);
+      logger.debug(
+        `[hybrid] ${driverName} page ${driverPage} returned ${result.results.length} results in ${Math.round(performance.now() - startTime)}ms`,
+      );
 
-            const weightedResults: WeightedSearchResult[] = results.map(
-              (result, index) => ({
-                ...result,
-                weight,
-                sources: [driverName],
-                rank: (driverPage - 1) * perPage + index + 1,
-              }),
-            );
+      // Collect failures reported by nested drivers
+      for (const error of result.errors || []) {
+        const key = error.driver || driverName;
+        if (!driverErrors.has(key)) {
+          driverErrors.set(key, error);
+        }
+      }
 
-            allResults.push(...weightedResults);
-          }
+      // Collect total from this driver (only first time we see it)
+      if (!driverTotals.has(driverName)) {
+        const driverTotal = result.totalResults;
+        if (driverTotal !== undefined && driverTotal > 0) {
+          driverTotals.set(driverName, driverTotal);
         }
+      }
 
-        // Deduplicate after each page
-        allResults = deduplicateResults(allResults);
+      return { driverPage, weight, results: result.results || [] };
+    };
 
-        // Stop if we have enough results
-        if (allResults.length >= targetCount) {
-          break;
-        }
+    // Rank and paginate the results collected so far
+    const snapshot = (final: boolean): SearchResponse => {
+      const errors = Array.from(driverErrors.values());
+      const rankedResults = rankResults(allResults, ranking);
+      const paginatedResults = rankedResults.slice(start, targetCount);
 
-        driverPage++;
+      if (ranking.debug && final) {
+        for (const { result, score } of paginatedResults) {
+          logger.debug(
+            `[hybrid] ${ranking.strategy} ${score.toFixed(4)} ${result.url} ${JSON.stringify(result.ranks)}`,
+          );
+        }
       }
 
-      // Paginate from all results
-      const offset = (page - 1) * perPage;
-      const paginatedResults = allResults.slice(offset, offset + perPage);
-
       // Calculate total results (sum of all driver totals)
       const estimatedTotalResults = Array.from(driverTotals.values()).reduce(
         (sum, total) => sum + total,
         0,
       );
 
-      // Convert WeightedSearchResult to SearchResult, preserving sources
+      // Convert HybridRankedResult to SearchResult, preserving sources and metadata
       const results: SearchResult[] = paginatedResults.map(
-        ({ title, url, snippet, sources }) => ({
-          title,
-          url,
-          snippet,
-          sources,
+        ({
+          result: {
+            weight: _weight,
+            rank: _rank,
+            ranks,
+            weights: _weights,
+            urls: _urls,
+            ...result
+          },
+          score,
+        }) => ({
+          ...result,
+          ...(ranking.debug && {
+            ranking: { strategy: ranking.strategy, score, ranks },
+          }),
         }),
       );
 
@@ -270,54 +572,309 @@ export default function hybridDriver(options: HybridDriverOptions): Driver {
         results,
         totalResults:
           estimatedTotalResults > 0 ? estimatedTotalResults : allResults.length,
-        pagination: { page, perPage },
+        pagination: {
+          page,
+          perPage,
+          ...(final && { nextCursor: createNextCursor(rankedResults) }),
+        },
+        ...(errors.length > 0 && { errors }),
       };
-    },
+    };
+
+    // Everything returned so far is seen, each driver's offset advances over
+    // the contiguous run of results that were returned (here or by another driver)
+    const createNextCursor = (
+      rankedResults: Array<{ result: HybridRankedResult }>,
+    ): string | undefined => {
+      for (const { result } of rankedResults.slice(0, targetCount)) {
+        for (const url of result.urls) {
+          seen.add(hashUrl(url, urlOptions));
+        }
+      }
+      let hasMore = false;
+      const nextCursor: HybridCursor = {
+        query: searchOptions.query,
+        page,
+        pageSize,
+        offsets: {},
+        done: [],
+        seen: [...seen].slice(-maxSeenHashes).join(""),
+      };
+      for (const [driverName, state] of progress) {
+        let offset = state.offset;
+        for (const { rank, key } of state.fetched) {
+          if (rank !== offset + 1 || !seen.has(key)) break;
+          offset = rank;
+        }
+        const consumed = offset === (state.fetched.at(-1)?.rank ?? offset);
 
-    suggest: async (suggestOptions: SuggestionOptions): Promise<string[]> => {
-      const { query } = suggestOptions;
+        nextCursor.offsets[driverName] = offset;
+        if (state.done && consumed) {
+          nextCursor.done.push(driverName);
+        } else {
+          hasMore = true;
+        }
+      }
 
-      if (!query.trim()) {
-        return [];
+      return hasMore ? encodeCursor(nextCursor) : undefined;
+    };
+
+    for (const [groupIndex, group] of driverGroups.entries()) {
+      const groupDrivers = group.filter(
+        ({ driver }) => !progress.has(driver.name || "unknown"),
+      );
+      if (groupIndex > 0 && groupDrivers.length > 0) {
+        logger.debug(
+          `[hybrid] no results, falling back to ${groupDrivers[0].driver.name}`,
+        );
       }
 
-      try {
-        // Execute all drivers that support suggestions
-        const driverPromises = normalizedDrivers.map(
-          async ({ driver, timeout }) => {
-            if (!driver.suggest) {
-              return [];
-            }
+      for (const { driver } of groupDrivers) {
+        const driverName = driver.name || "unknown";
+        const offset = cursor?.offsets[driverName] ?? 0;
+        progress.set(driverName, {
+          offset,
+          nextPage: Math.floor(offset / pageSize) + 1,
+          done: cursor?.done.includes(driverName) ?? false,
+          failed: false,
+          fetched: [],
+        });
+      }
 
-            const suggestPromise = Promise.resolve(
-              driver.suggest(suggestOptions),
-            );
-            return timeout
-              ? await withTimeout(
-                  suggestPromise,
-                  timeout,
-                  `Driver ${driver.name} suggest timed out after ${timeout}ms`,
-                )
-              : await suggestPromise;
-          },
+      for (let round = 0; round < maxPages; round++) {
+        const activeDrivers = groupDrivers.filter(({ driver }) => {
+          const state = progress.get(driver.name || "unknown")!;
+          return !state.done && !state.failed;
+        });
+
+        // Stop if every driver is exhausted or failed
+        if (activeDrivers.length === 0) {
+          break;
+        }
+
+        // Fetch the next page from every active driver, handling answers as they arrive
+        const pending = new Map(
+          activeDrivers.map((entry, index) => [
+            index,
+            fetchPage(entry).then(
+              (value) => ({ index, status: "fulfilled" as const, value }),
+              (reason: unknown) => ({
+                index,
+                status: "rejected" as const,
+                reason,
+              }),
+            ),
+          ]),
         );
 
-        // Wait for all suggestions
-        const suggestionResults = await Promise.allSettled(driverPromises);
+        while (pending.size > 0) {
+          const settled = await Promise.race(pending.values());
+          pending.delete(settled.index);
+
+          // Cancelled by the caller, not a driver failure
+          signal?.throwIfAborted();
+
+          const driverName =
+            activeDrivers[settled.index].driver.name || "unknown";
+          const state = progress.get(driverName)!;
+
+          if (settled.status === "rejected") {
+            const error = toPolySearchError(settled.reason);
+            const key = error.driver || driverName;
+            if (error instanceof CircuitOpenError) {
+              logger.debug(`[hybrid] ${key} skipped: circuit open`);
+            } else {
+              logger.warn(`[hybrid] ${key} search failed: ${error.message}`);
+            }
+            firstError ??= error;
+            state.failed = true;
+            if (!driverErrors.has(key)) {
+              driverErrors.set(key, error.toJSON());
+            }
+            continue;
+          }
+
+          hasSucceeded = true;
+          const { driverPage, weight, results } = settled.value;
+
+          // A short page means the driver has no more results
+          state.nextPage++;
+          state.done = results.length < pageSize;
+
+          for (const [resultIndex, result] of results.entries()) {
+            const rank = (driverPage - 1) * pageSize + resultIndex + 1;
+            const key = hashUrl(result.url, urlOptions);
+
+            // Skip results consumed by previous pages
+            if (rank <= state.offset) {
+              continue;
+            }
+            state.fetched.push({ rank, key });
+            if (seen.has(key)) {
+              continue;
+            }
+
+            allResults.push({
+              ...result,
+              weight,
+              sources: [driverName],
+              urls: [result.url],
+              rank,
+              ranks: { [driverName]: rank },
+              weights: { [driverName]: weight },
+            });
+          }
+
+          allResults = deduplicateResults(allResults, urlOptions, similarity);
 
-        // Collect all successful suggestions
-        const allSuggestions: string[] = [];
-        for (const result of suggestionResults) {
-          if (result.status === "fulfilled" && Array.isArray(result.value)) {
-            allSuggestions.push(...result.value);
+          // Partial snapshot while other drivers are still loading
+          if (pending.size > 0) {
+            yield snapshot(false);
           }
-          // Silently ignore failed suggestions
         }
 
-        return deduplicateSuggestions(allSuggestions);
-      } catch {
-        return [];
+        // Stop if we have enough results
+        if (allResults.length >= targetCount) {
+          break;
+        }
+      }
+
+      // Fall back to the next driver only when nothing was found
+      if (allResults.length > 0) {
+        break;
       }
+    }
+
+    // Only fail as a whole when no driver returned anything
+    if (!hasSucceeded && firstError && mode === "throw") {
+      throw firstError;
+    }
+
+    yield snapshot(true);
+  }
+
+  // Query drivers that support suggestions and fuse their suggestions
+  const richSuggest = async (
+    suggestOptions: SuggestionOptions,
+  ): Promise<Suggestion[]> => {
+    const { query, signal } = suggestOptions;
+    const mode = suggestOptions.errors ?? options.errors;
+
+    if (!query.trim()) {
+      return [];
+    }
+
+    const route = routeQuery(query);
+
+    // Execute routed drivers that support suggestions (skipping empty stubs)
+    const driverPromises = route.drivers
+      .filter(
+        ({ driver }) => driver.suggest && resolveCapabilities(driver).suggest,
+      )
+      .map(async ({ driver, weight, timeout }) => {
+        const driverName = driver.name || "unknown";
+        const driverOptions: SuggestionOptions = {
+          ...suggestOptions,
+          query: route.query,
+          errors: "throw",
+        };
+
+        // Nested drivers (e.g. hybrid) report their own sources
+        const suggestions = await withTimeout(
+          async (driverSignal): Promise<Suggestion[]> =>
+            driver.richSuggest
+              ? driver.richSuggest({ ...driverOptions, signal: driverSignal })
+              : (
+                  await driver.suggest!({
+                    ...driverOptions,
+                    signal: driverSignal,
+                  })
+                ).map((text) => ({ text, sources: [driverName] })),
+          timeout,
+          `Driver ${driver.name} suggest timed out after ${timeout}ms`,
+          driverName,
+          signal,
+        ).catch((error) => {
+          throw isAbortError(error)
+            ? error
+            : toPolySearchError(error, driverName);
+        });
+
+        return { weight, suggestions };
+      });
+
+    // Wait for all suggestions
+    const suggestionResults = await Promise.allSettled(driverPromises);
+
+    // Cancelled by the caller, not a driver failure
+    signal?.throwIfAborted();
+
+    // Collect all successful suggestions
+    const lists: Array<{ weight: number; suggestions: Suggestion[] }> = [];
+    let firstError: PolySearchError | undefined;
+    let hasSucceeded = false;
+    for (const result of suggestionResults) {
+      if (result.status === "fulfilled") {
+        hasSucceeded = true;
+        if (Array.isArray(result.value.suggestions)) {
+          lists.push(result.value);
+        }
+      } else {
+        const error = toPolySearchError(result.reason);
+        logger.warn(
+          `[hybrid] ${error.driver || "unknown"} suggest failed: ${error.message}`,
+        );
+        firstError ??= error;
+      }
+    }
+
+    // Only fail as a whole when no driver returned anything
+    if (!hasSucceeded && firstError && mode === "throw") {
+      throw firstError;
+    }
+
+    const suggestions = fuseSuggestions(lists, route.query).slice(
+      0,
+      suggestOptions.limit || undefined,
+    );
+
+    // Keep the bang so that picking a suggestion searches the same drivers
+    return route.bang
+      ? suggestions.map((suggestion) => ({
+          ...suggestion,
+          text: `!${route.bang} ${suggestion.text}`,
+        }))
+      : suggestions;
+  };
+
+  return {
+    name: "hybrid",
+    options,
+    capabilities: mergeCapabilities(
+      normalizedDrivers.map(({ driver }) => resolveCapabilities(driver)),
+    ),
+
+    search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
+      let response: SearchResponse = { results: [] };
+      for await (const snapshot of searchSnapshots(searchOptions)) {
+        response = snapshot;
+      }
+      return response;
     },
+
+    // Yield merged results as soon as each driver answers
+    searchStream: searchSnapshots,
+
+    // Failure rate, latency and circuit state of each driver
+    health: () =>
+      normalizedDrivers.map(({ driver }) =>
+        health.get(driver.name || "unknown"),
+      ),
+
+    // Fused suggestions of all drivers with their sources
+    richSuggest,
+
+    suggest: async (suggestOptions: SuggestionOptions): Promise<string[]> =>
+      (await richSuggest(suggestOptions)).map(({ text }) => text),
   };
 }
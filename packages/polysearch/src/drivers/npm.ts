@@ -1,13 +1,15 @@
-import { ofetch } from "ofetch";
 import type {
   Driver,
   DriverOptions,
   SuggestionOptions,
   SearchOptions,
   SearchResponse,
+  SearchResult,
   CacheConfig,
 } from "..";
-import { createCache } from "../cache";
+import { createCache, getCacheKey } from "../cache";
+import { handleSearchError, handleSuggestError } from "../errors";
+import { createLoggedFetch, createLogger } from "../logger";
 
 // NPM Registry API response types
 export interface NPMSearchPackage {
@@ -114,6 +116,18 @@ export interface NPMVersion {
   keywords?: string[];
 }
 
+// Structured data attached to each NPM search result
+export interface NPMResultMeta {
+  name: string;
+  version: string;
+  keywords: string[];
+  links: NPMSearchPackage["links"];
+  quality: number; // 0-1
+  popularity: number; // 0-1
+  maintenance: number; // 0-1
+  searchScore: number;
+}
+
 export interface NPMDriverOptions extends DriverOptions {
   registry?: string; // NPM registry URL, defaults to https://registry.npmjs.org
   endpoint?: string; // Search API endpoint path, defaults to /-/v1/search
@@ -133,11 +147,23 @@ export default function npmDriver(
   const quality = driverOptions.quality;
   const popularity = driverOptions.popularity;
   const maintenance = driverOptions.maintenance;
-  const cache = createCache(driverOptions.cache);
+  const logger = createLogger(driverOptions.logger);
+  const cache = createCache(driverOptions.cache, logger);
+  const $fetch = createLoggedFetch(logger, "npm");
 
   return {
     name: "npm",
     options: driverOptions,
+    cache,
+    capabilities: {
+      search: true,
+      suggest: true,
+      requiresAuth: false,
+      pagination: true,
+      maxPerPage: 250,
+      defaultPerPage: 20,
+      kinds: ["package"],
+    },
 
     search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
       const { query } = searchOptions;
@@ -148,64 +174,92 @@ export default function npmDriver(
 
       const perPage = searchOptions.perPage || cache.perPage || 20;
       const page = searchOptions.page || 1;
-      const cacheKey = `npm:${query}:${page}:${perPage}`;
+      const cacheKey = getCacheKey("npm", {
+        ...searchOptions,
+        page,
+        perPage,
+        registry,
+        endpoint,
+        quality,
+        popularity,
+        maintenance,
+      });
 
-      // Try cache first
-      const cached = await cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      try {
-        // Build search URL with parameters
-        const from = (page - 1) * perPage; // Calculate offset
-
-        const searchParams = new URLSearchParams({
-          text: query,
-          size: Math.min(perPage, 250).toString(), // NPM API max is 250
-          from: from.toString(),
-        });
+      // Served from the cache, shared with concurrent identical searches
+      return cache.resolve(
+        cacheKey,
+        async (signal) => {
+          try {
+            // Build search URL with parameters
+            const from = (page - 1) * perPage; // Calculate offset
 
-        // Add optional scoring weights if provided
-        if (quality !== undefined)
-          searchParams.set("quality", quality.toString());
-        if (popularity !== undefined)
-          searchParams.set("popularity", popularity.toString());
-        if (maintenance !== undefined)
-          searchParams.set("maintenance", maintenance.toString());
+            const searchParams = new URLSearchParams({
+              text: query,
+              size: Math.min(perPage, 250).toString(), // NPM API max is 250
+              from: from.toString(),
+            });
 
-        const url = `${searchEndpoint}?${searchParams.toString()}`;
+            // Add optional scoring weights if provided
+            if (quality !== undefined)
+              searchParams.set("quality", quality.toString());
+            if (popularity !== undefined)
+              searchParams.set("popularity", popularity.toString());
+            if (maintenance !== undefined)
+              searchParams.set("maintenance", maintenance.toString());
 
-        // Send request to NPM search API
-        const response = await ofetch<NPMSearchResponse>(url, {
-          method: "GET",
-          headers: {
-            Accept: "application/json",
-          },
-        });
+            const url = `${searchEndpoint}?${searchParams.toString()}`;
 
-        // Process search results
-        const result: SearchResponse = {
-          results: response.objects.map((item: NPMSearchObject) => ({
-            title: item.package.name,
-            url: item.package.links.npm,
-            snippet: `${item.package.description}\n\nVersion: ${item.package.version}\nQuality: ${(item.score.detail.quality * 100).toFixed(1)}%\nPopularity: ${(item.score.detail.popularity * 100).toFixed(1)}%\nMaintenance: ${(item.score.detail.maintenance * 100).toFixed(1)}%`,
-          })),
-          totalResults: response.total,
-          pagination: {
-            page: page,
-            perPage: perPage,
-          },
-        };
+            // Send request to NPM search API
+            const response = await $fetch<NPMSearchResponse>(url, {
+              method: "GET",
+              signal,
+              headers: {
+                Accept: "application/json",
+              },
+            });
 
-        // Cache the result
-        await cache.set(cacheKey, result);
+            // Process search results
+            const result: SearchResponse<NPMResultMeta> = {
+              results: response.objects.map(
+                (item: NPMSearchObject): SearchResult<NPMResultMeta> => ({
+                  title: item.package.name,
+                  url: item.package.links.npm,
+                  snippet: item.package.description,
+                  kind: "package",
+                  publishedAt: item.package.date,
+                  author: item.package.publisher?.username,
+                  score: item.score.final,
+                  meta: {
+                    name: item.package.name,
+                    version: item.package.version,
+                    keywords: item.package.keywords || [],
+                    links: item.package.links,
+                    quality: item.score.detail.quality,
+                    popularity: item.score.detail.popularity,
+                    maintenance: item.score.detail.maintenance,
+                    searchScore: item.searchScore,
+                  },
+                }),
+              ),
+              totalResults: response.total,
+              pagination: {
+                page: page,
+                perPage: perPage,
+              },
+            };
 
-        return result;
-      } catch (error) {
-        console.error("NPM search error:", error);
-        return { results: [] };
-      }
+            return result;
+          } catch (error) {
+            return handleSearchError(
+              error,
+              "npm",
+              searchOptions.errors ?? driverOptions.errors,
+              logger,
+            );
+          }
+        },
+        searchOptions.signal,
+      );
     },
 
     suggest: async (options: SuggestionOptions): Promise<string[]> => {
@@ -224,8 +278,9 @@ export default function npmDriver(
 
         const url = `${searchEndpoint}?${searchParams.toString()}`;
 
-        const response = await ofetch<NPMSearchResponse>(url, {
+        const response = await $fetch<NPMSearchResponse>(url, {
           method: "GET",
+          signal: options.signal,
           headers: {
             Accept: "application/json",
           },
@@ -236,8 +291,12 @@ export default function npmDriver(
           (item: NPMSearchObject) => item.package.name,
         );
       } catch (error) {
-        console.error("NPM suggest error:", error);
-        return [];
+        return handleSuggestError(
+          error,
+          "npm",
+          options.errors ?? driverOptions.errors,
+          logger,
+        );
       }
     },
   };
@@ -0,0 +1,294 @@
+import { FetchError } from "ofetch";
+import { createLogger } from "./logger";
+import type {
+  ErrorMode,
+  Logger,
+  MaybePromise,
+  SearchError,
+  SearchErrorCode,
+  SearchResponse,
+} from "./types";
+
+export interface PolySearchErrorOptions {
+  driver?: string; // Name of the driver that failed
+  status?: number; // Upstream HTTP status code
+  cause?: unknown;
+}
+
+// Base class for all errors raised by drivers
+export class PolySearchError extends Error {
+  code: SearchErrorCode = "upstream";
+  driver?: string;
+  status?: number;
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "PolySearchError";
+    this.driver = options.driver;
+    this.status = options.status;
+  }
+
+  // Serializable form for SearchResponse.errors
+  toJSON(): SearchError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      driver: this.driver,
+      status: this.status,
+    };
+  }
+}
+
+// Upstream rejected the request because of rate limiting or quota
+export class RateLimitError extends PolySearchError {
+  override code: SearchErrorCode = "rate-limit";
+  retryAfter?: number; // Seconds until the limit resets
+
+  constructor(
+    message: string,
+    options: PolySearchErrorOptions & { retryAfter?: number } = {},
+  ) {
+    super(message, options);
+    this.name = "RateLimitError";
+    this.retryAfter = options.retryAfter;
+  }
+
+  override toJSON(): SearchError {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+}
+
+// Missing or invalid credentials
+export class AuthError extends PolySearchError {
+  override code: SearchErrorCode = "auth";
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, options);
+    this.name = "AuthError";
+  }
+}
+
+// Upstream failed (network error, 5xx, unexpected status)
+export class UpstreamError extends PolySearchError {
+  override code: SearchErrorCode = "upstream";
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, options);
+    this.name = "UpstreamError";
+  }
+}
+
+// Upstream did not answer in time
+export class TimeoutError extends PolySearchError {
+  override code: SearchErrorCode = "timeout";
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+// Upstream answered with a response that could not be parsed
+export class ParseError extends PolySearchError {
+  override code: SearchErrorCode = "parse";
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, options);
+    this.name = "ParseError";
+  }
+}
+
+// Options rejected before any upstream request (e.g. a malformed pagination cursor)
+export class InvalidRequestError extends PolySearchError {
+  override code: SearchErrorCode = "invalid-request";
+
+  constructor(message: string, options: PolySearchErrorOptions = {}) {
+    super(message, options);
+    this.name = "InvalidRequestError";
+  }
+}
+
+// Driver skipped because its circuit breaker is open
+export class CircuitOpenError extends PolySearchError {
+  override code: SearchErrorCode = "unavailable";
+  retryAfter?: number; // Seconds until the driver is probed again
+
+  constructor(
+    message: string,
+    options: PolySearchErrorOptions & { retryAfter?: number } = {},
+  ) {
+    super(message, options);
+    this.name = "CircuitOpenError";
+    this.retryAfter = options.retryAfter;
+  }
+
+  override toJSON(): SearchError {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+}
+
+// Parse Retry-After or X-RateLimit-Reset headers into seconds
+function getRetryAfter(headers?: Headers): number | undefined {
+  const retryAfter = headers?.get("retry-after");
+  if (retryAfter && !Number.isNaN(Number(retryAfter))) {
+    return Number(retryAfter);
+  }
+
+  const reset = headers?.get("x-ratelimit-reset");
+  if (reset && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Math.ceil(Number(reset) - Date.now() / 1000));
+  }
+
+  return undefined;
+}
+
+// Check whether an error was caused by aborting the request (not by a failure)
+export function isAbortError(error: unknown): boolean {
+  const cause = error instanceof Error ? (error.cause as Error) : undefined;
+  return (
+    (error instanceof Error && error.name === "AbortError") ||
+    cause?.name === "AbortError"
+  );
+}
+
+// Convert any error thrown while querying a driver to a PolySearchError
+export function toPolySearchError(
+  error: unknown,
+  driver?: string,
+): PolySearchError {
+  if (error instanceof PolySearchError) {
+    error.driver ??= driver;
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof FetchError) {
+    const status = error.status;
+    const headers = error.response?.headers;
+    const cause = error.cause as Error | undefined;
+
+    if (cause?.name === "TimeoutError") {
+      return new TimeoutError(message, { driver, cause: error });
+    }
+
+    if (
+      status === 429 ||
+      (status === 403 && headers?.get("x-ratelimit-remaining") === "0")
+    ) {
+      return new RateLimitError(message, {
+        driver,
+        status,
+        cause: error,
+        retryAfter: getRetryAfter(headers),
+      });
+    }
+
+    if (status === 401 || status === 403) {
+      return new AuthError(message, { driver, status, cause: error });
+    }
+
+    return new UpstreamError(message, { driver, status, cause: error });
+  }
+
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new TimeoutError(message, { driver, cause: error });
+  }
+
+  if (error instanceof SyntaxError) {
+    return new ParseError(message, { driver, cause: error });
+  }
+
+  return new UpstreamError(message, { driver, cause: error });
+}
+
+// Handle a failed search according to the error mode
+export function handleSearchError(
+  error: unknown,
+  driver: string,
+  mode?: ErrorMode,
+  logger: Logger = createLogger(),
+): SearchResponse {
+  // Cancelled requests always reject
+  if (isAbortError(error)) {
+    throw error;
+  }
+
+  const searchError = toPolySearchError(error, driver);
+
+  if (mode === "throw") {
+    throw searchError;
+  }
+
+  logger.error(`[${driver}] search failed: ${searchError.message}`, error);
+
+  if (mode === "report") {
+    return { results: [], errors: [searchError.toJSON()] };
+  }
+
+  return { results: [] };
+}
+
+// Handle a failed suggestion request according to the error mode
+export function handleSuggestError(
+  error: unknown,
+  driver: string,
+  mode?: ErrorMode,
+  logger: Logger = createLogger(),
+): string[] {
+  // Cancelled requests always reject
+  if (isAbortError(error)) {
+    throw error;
+  }
+
+  const suggestError = toPolySearchError(error, driver);
+
+  if (mode === "throw") {
+    throw suggestError;
+  }
+
+  logger.error(`[${driver}] suggest failed: ${suggestError.message}`, error);
+
+  return [];
+}
+
+// Run a driver call with its own abort signal
+// The call is aborted when it times out or when the parent signal aborts
+export async function withTimeout<T>(
+  run: (signal: AbortSignal) => MaybePromise<T>,
+  timeoutMs: number | undefined,
+  errorMessage: string,
+  driver: string,
+  parentSignal?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(parentSignal?.reason);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (parentSignal?.aborted) {
+    abort();
+  } else {
+    parentSignal?.addEventListener("abort", abort, { once: true });
+  }
+
+  try {
+    const promise = Promise.resolve(run(controller.signal));
+    if (!timeoutMs) {
+      return await promise;
+    }
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutError(errorMessage, { driver });
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener("abort", abort);
+  }
+}
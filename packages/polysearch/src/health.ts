@@ -0,0 +1,183 @@
+import type {
+  CircuitBreakerOptions,
+  CircuitState,
+  DriverHealth,
+  SearchError,
+} from "./types";
+
+// Outcome of a request to a driver
+interface HealthSample {
+  ok: boolean;
+  latency: number; // ms
+}
+
+// Upper bounds (ms) of the latency histogram buckets
+const latencyBuckets = [50, 100, 250, 500, 1000, 2500, 5000, 10_000, 30_000];
+
+interface DriverHealthState {
+  state: CircuitState;
+  samples: HealthSample[]; // Recent requests, oldest first
+  histogram: { counts: number[]; sum: number; count: number }; // Every request, counts are not cumulative
+  lastError?: SearchError;
+  retryAt?: number; // Timestamp (ms) when an open circuit can be probed
+  probing: boolean; // A half-open probe is in flight
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  const index = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return Math.round(sorted[index]);
+}
+
+// Track failures and latency of drivers and skip drivers that keep failing
+// Pass false as options to track health without ever opening circuits
+export function createHealthTracker(options?: CircuitBreakerOptions | false) {
+  const enabled = options !== false;
+  const {
+    failureRate = 0.5,
+    minRequests = 5,
+    windowSize = 20,
+    cooldown = 30_000,
+  } = options || {};
+
+  const drivers = new Map<string, DriverHealthState>();
+
+  const getState = (name: string): DriverHealthState => {
+    let state = drivers.get(name);
+    if (!state) {
+      state = {
+        state: "closed",
+        samples: [],
+        histogram: { counts: latencyBuckets.map(() => 0), sum: 0, count: 0 },
+        probing: false,
+      };
+      drivers.set(name, state);
+    }
+    return state;
+  };
+
+  const open = (state: DriverHealthState, retryAfter = 0) => {
+    state.state = "open";
+    state.probing = false;
+    state.retryAt = Date.now() + Math.max(cooldown, retryAfter * 1000);
+  };
+
+  return {
+    // Check whether a request can be sent, an open circuit lets a single probe through after its cooldown
+    canRequest(name: string): boolean {
+      const state = getState(name);
+
+      if (state.state === "open" && Date.now() >= state.retryAt!) {
+        state.state = "half-open";
+      }
+      if (state.state === "half-open") {
+        if (state.probing) {
+          return false;
+        }
+        state.probing = true;
+        return true;
+      }
+
+      return state.state === "closed";
+    },
+
+    // Record the outcome of a request, a failed probe reopens the circuit and a successful one closes it
+    record(name: string, latency: number, error?: SearchError) {
+      const state = getState(name);
+      const ok = !error;
+
+      state.samples.push({ ok, latency });
+      if (state.samples.length > windowSize) {
+        state.samples.shift();
+      }
+
+      const bucket = latencyBuckets.findIndex((bound) => latency <= bound);
+      if (bucket !== -1) {
+        state.histogram.counts[bucket]++;
+      }
+      state.histogram.sum += latency;
+      state.histogram.count++;
+      if (error) {
+        state.lastError = error;
+      }
+
+      if (state.state === "half-open") {
+        if (ok) {
+          state.state = "closed";
+          state.samples = [{ ok, latency }];
+          state.probing = false;
+          state.retryAt = undefined;
+        } else {
+          open(state, error?.retryAfter);
+        }
+        return;
+      }
+
+      if (state.state !== "closed" || ok || !enabled) {
+        return;
+      }
+
+      // Rate limited drivers are skipped until the limit resets
+      if (error?.code === "rate-limit" && error.retryAfter) {
+        open(state, error.retryAfter);
+        return;
+      }
+
+      const failures = state.samples.filter((sample) => !sample.ok).length;
+      if (
+        state.samples.length >= minRequests &&
+        failures / state.samples.length >= failureRate
+      ) {
+        open(state);
+      }
+    },
+
+    // Release a probe that ended without an outcome (e.g. cancelled by the caller)
+    release(name: string) {
+      getState(name).probing = false;
+    },
+
+    // Timestamp (ms) when an open circuit will be probed
+    retryAt(name: string): number | undefined {
+      return getState(name).retryAt;
+    },
+
+    // Health of a driver
+    get(name: string): DriverHealth {
+      const { state, samples, histogram, lastError, retryAt } = getState(name);
+      const failures = samples.filter((sample) => !sample.ok).length;
+      const latencies = samples
+        .map((sample) => sample.latency)
+        .sort((a, b) => a - b);
+
+      return {
+        name,
+        state,
+        requests: samples.length,
+        failures,
+        failureRate: samples.length > 0 ? failures / samples.length : 0,
+        ...(latencies.length > 0 && {
+          latency: {
+            p50: percentile(latencies, 50),
+            p90: percentile(latencies, 90),
+            p99: percentile(latencies, 99),
+          },
+        }),
+        ...(histogram.count > 0 && {
+          latencyHistogram: {
+            buckets: latencyBuckets.map((le, index) => ({
+              le,
+              count: histogram.counts
+                .slice(0, index + 1)
+                .reduce((sum, count) => sum + count, 0),
+            })),
+            sum: Math.round(histogram.sum),
+            count: histogram.count,
+          },
+        }),
+        ...(lastError && { lastError }),
+        ...(state === "open" && { retryAt }),
+      };
+    },
+  };
+}
@@ -11,3 +11,22 @@ export * from "./search";
 
 // Export cache utilities
 export * from "./cache";
+
+// Export error classes
+export * from "./errors";
+
+// Export logger utilities
+export * from "./logger";
+
+// Export capability utilities
+export * from "./capabilities";
+
+// Export driver health utilities
+export * from "./health";
+
+// Export URL canonicalization and text similarity utilities
+export * from "./url";
+export * from "./similarity";
+
+// Export option schema utilities
+export * from "./schema";
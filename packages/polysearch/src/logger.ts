@@ -0,0 +1,97 @@
+import { ofetch, type $Fetch, type FetchContext } from "ofetch";
+import type { Logger } from "./types";
+
+function noop() {
+  // Silent by default
+}
+
+type LogLevel = keyof Logger;
+
+// pino loggers expose their bindings and take the merging object before the message
+function isPino(logger: object): boolean {
+  return (
+    typeof (logger as { bindings?: unknown }).bindings === "function" &&
+    typeof (logger as { levels?: unknown }).levels === "object"
+  );
+}
+
+// Call a pino level with the details as merging object, errors under err to keep their stack
+function bindPino(logger: Partial<Logger>, level: LogLevel): Logger[LogLevel] {
+  const log = logger[level] as
+    | ((object: unknown, message?: string) => void)
+    | undefined;
+  if (!log) {
+    return noop;
+  }
+  return (message, ...args) => {
+    if (args.length === 0) {
+      log.call(logger, message);
+      return;
+    }
+    const [detail] = args;
+    log.call(
+      logger,
+      detail instanceof Error
+        ? { err: detail }
+        : { details: args.length === 1 ? detail : args },
+      message,
+    );
+  };
+}
+
+// Create a logger with every level defined, bound to the given logger (consola, pino, console, ...)
+export function createLogger(logger?: Partial<Logger>): Logger {
+  if (logger && isPino(logger)) {
+    return {
+      debug: bindPino(logger, "debug"),
+      info: bindPino(logger, "info"),
+      warn: bindPino(logger, "warn"),
+      error: bindPino(logger, "error"),
+    };
+  }
+  return {
+    debug: logger?.debug?.bind(logger) ?? noop,
+    info: logger?.info?.bind(logger) ?? noop,
+    warn: logger?.warn?.bind(logger) ?? noop,
+    error: logger?.error?.bind(logger) ?? noop,
+  };
+}
+
+// Describe a request for log messages
+function describeRequest(context: FetchContext): string {
+  const method = context.options.method || "GET";
+  const url =
+    typeof context.request === "string" ? context.request : context.request.url;
+  return `${method} ${url}`;
+}
+
+// Create an ofetch instance that logs request URLs, latency and failures
+export function createLoggedFetch(logger: Logger, driver: string): $Fetch {
+  const startTimes = new WeakMap<FetchContext, number>();
+  const elapsed = (context: FetchContext) =>
+    Math.round(performance.now() - (startTimes.get(context) ?? 0));
+
+  return ofetch.create({
+    onRequest(context) {
+      startTimes.set(context, performance.now());
+      logger.debug(`[${driver}] ${describeRequest(context)}`);
+    },
+    onResponse(context) {
+      // Failed responses are logged by onResponseError
+      if (!context.response.ok) return;
+      logger.debug(
+        `[${driver}] ${describeRequest(context)} ${context.response.status} in ${elapsed(context)}ms`,
+      );
+    },
+    onRequestError(context) {
+      logger.warn(
+        `[${driver}] ${describeRequest(context)} failed in ${elapsed(context)}ms: ${context.error.message}`,
+      );
+    },
+    onResponseError(context) {
+      logger.warn(
+        `[${driver}] ${describeRequest(context)} ${context.response.status} in ${elapsed(context)}ms`,
+      );
+    },
+  });
+}
@@ -0,0 +1,233 @@
+import type { DriverCapabilities } from "./types";
+
+// Subset of JSON schema used to describe and validate options
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  description?: string;
+}
+
+export type JSONSchemaType =
+  | "string"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+// Problem found while validating a value
+export interface ValidationIssue {
+  path: string; // Option name (dotted for nested values)
+  message: string;
+}
+
+// JSON schema of the options accepted by search() for a driver
+export function getSearchOptionsSchema(
+  capabilities: DriverCapabilities,
+): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Search query string",
+      },
+      page: {
+        type: "integer",
+        minimum: 1,
+        description: "Page number for pagination (1-based)",
+      },
+      perPage: {
+        type: "integer",
+        minimum: 1,
+        ...(capabilities.maxPerPage && { maximum: capabilities.maxPerPage }),
+        description: "Results per page",
+      },
+      cursor: {
+        type: "string",
+        description: "pagination.nextCursor of the previous page",
+      },
+      errors: {
+        type: "string",
+        enum: ["throw", "report"],
+        description: "Throw driver errors or report them in the response",
+      },
+      cache: {
+        type: ["object", "boolean"],
+        description: "Cache configuration, or false to disable the cache",
+      },
+      ...(capabilities.sort && {
+        sort: { type: "string", enum: capabilities.sort },
+      }),
+      ...(capabilities.order && {
+        order: { type: "string", enum: capabilities.order },
+      }),
+      ...capabilities.options,
+    },
+    required: ["query"],
+    additionalProperties: true, // Other options are passed through to the driver
+  };
+}
+
+// JSON schema of the options accepted by suggest()
+export function getSuggestionOptionsSchema(): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Partial query to get suggestions for",
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum number of suggestions",
+      },
+      errors: {
+        type: "string",
+        enum: ["throw", "report"],
+        description: "Throw driver errors or return no suggestions",
+      },
+    },
+    required: ["query"],
+    additionalProperties: true,
+  };
+}
+
+// Type of a JSON value as named by JSON schema
+function getType(value: unknown): JSONSchemaType {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+  return typeof value as JSONSchemaType;
+}
+
+// Validate a value against a schema, returning the issues found (empty when valid)
+export function validateSchema(
+  value: unknown,
+  schema: JSONSchema,
+  path = "",
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const name = path || "value";
+
+  if (schema.type) {
+    const types = [schema.type].flat();
+    const type = getType(value);
+    const matches = types.some(
+      (expected) =>
+        expected === type || (expected === "number" && type === "integer"),
+    );
+    if (!matches) {
+      return [{ path: name, message: `must be of type ${types.join(" or ")}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issues.push({
+      path: name,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: name, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: name, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.minLength !== undefined &&
+    value.trim().length < schema.minLength
+  ) {
+    issues.push({ path: name, message: "must not be empty" });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      issues.push(...validateSchema(item, schema.items, `${name}[${index}]`));
+    }
+  }
+
+  if (getType(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({
+          path: path ? `${path}.${key}` : key,
+          message: "is required",
+        });
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const itemPath = path ? `${path}.${key}` : key;
+      const itemSchema = schema.properties?.[key];
+      if (itemSchema) {
+        if (item !== undefined) {
+          issues.push(...validateSchema(item, itemSchema, itemPath));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: itemPath, message: "is not allowed" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Convert query string values to the types of their schema
+// Values that can't be converted are kept as strings so that validation reports them
+export function coerceQuery(
+  query: Record<string, unknown>,
+  schema: JSONSchema,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    const types = [schema.properties?.[key]?.type || []].flat();
+    if (typeof value !== "string" || types.includes("string")) {
+      result[key] = value;
+    } else if (
+      (types.includes("integer") || types.includes("number")) &&
+      value.trim() !== "" &&
+      !Number.isNaN(Number(value))
+    ) {
+      result[key] = Number(value);
+    } else if (
+      types.includes("boolean") &&
+      (value === "true" || value === "false")
+    ) {
+      result[key] = value === "true";
+    } else if (types.includes("object")) {
+      try {
+        result[key] = JSON.parse(value);
+      } catch {
+        result[key] = value;
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
@@ -1,18 +1,183 @@
-import type { PolySearchOptions, SuggestionOptions } from "./types";
+import { withCache } from "./cache";
+import { resolveCapabilities } from "./capabilities";
+import { isAbortError } from "./errors";
+import { createLogger } from "./logger";
+import type {
+  DriverDescription,
+  DriverHealth,
+  PolySearchHookContext,
+  PolySearchHooks,
+  PolySearchOptions,
+  SearchOptions,
+  SearchResponse,
+  Suggestion,
+  SuggestionOptions,
+} from "./types";
 
 export function createPolySearch(options: PolySearchOptions) {
-  const driver = options.driver;
+  const logger = createLogger(options.logger);
+  const driver = withCache(options.driver, options.cache, logger);
+  const driverName = driver.name || "unknown";
+  const hooks: PolySearchHooks[] = [options.hooks || []].flat();
+
+  // Notify onError hooks, cancelled requests are not errors
+  const reportError = async (
+    error: unknown,
+    context: PolySearchHookContext,
+  ) => {
+    if (isAbortError(error)) {
+      logger.debug(
+        `[${driverName}] ${context.type} "${context.options.query}" aborted`,
+      );
+      return;
+    }
+
+    logger.error(
+      `[${driverName}] ${context.type} "${context.options.query}" failed`,
+      error,
+    );
+
+    for (const hook of hooks) {
+      await hook.onError?.(error, context);
+    }
+  };
+
+  // Get suggestions with their sources, drivers without richSuggest are the source of all their suggestions
+  const richSuggest = async (
+    suggestOptions: SuggestionOptions,
+  ): Promise<Suggestion[]> => {
+    // Fallback: return empty array if suggest not implemented
+    if (!driver.suggest && !driver.richSuggest) {
+      return [];
+    }
+
+    const startTime = performance.now();
+
+    try {
+      for (const hook of hooks) {
+        suggestOptions =
+          (await hook.beforeSuggest?.(suggestOptions)) || suggestOptions;
+      }
+
+      logger.debug(`[${driverName}] suggest "${suggestOptions.query}"`);
+      let suggestions = driver.richSuggest
+        ? await driver.richSuggest(suggestOptions)
+        : (await driver.suggest!(suggestOptions)).map((text) => ({
+            text,
+            sources: [driverName],
+          }));
+
+      // Hooks get and return texts, kept suggestions keep their sources
+      for (const hook of hooks) {
+        const texts = await hook.afterSuggest?.(
+          suggestions.map(({ text }) => text),
+          suggestOptions,
+        );
+        if (texts) {
+          const byText = new Map(suggestions.map((s) => [s.text, s]));
+          suggestions = texts.map(
+            (text) => byText.get(text) ?? { text, sources: [] },
+          );
+        }
+      }
+
+      suggestions = suggestions.slice(0, suggestOptions.limit || undefined);
+
+      logger.info(
+        `[${driverName}] suggest "${suggestOptions.query}" returned ${suggestions.length} suggestions in ${Math.round(performance.now() - startTime)}ms`,
+      );
+      return suggestions;
+    } catch (error) {
+      await reportError(error, { type: "suggest", options: suggestOptions });
+      throw error;
+    }
+  };
 
   // Core search operations
   const search = {
-    search: driver.search,
-
-    suggest:
-      driver.suggest ||
-      (async (_options: SuggestionOptions): Promise<string[]> => {
-        // Fallback: return empty array if suggest not implemented
-        return [];
-      }),
+    // Cache of the search manager (options.cache) or of the driver, for invalidation and stats
+    cache: driver.cache,
+
+    // Describe the driver and what it supports
+    describe: (): DriverDescription => ({
+      name: driverName,
+      capabilities: resolveCapabilities(driver),
+    }),
+
+    // Failure rate, latency and circuit state of the drivers queried by the driver (e.g. hybrid)
+    health: (): DriverHealth[] => driver.health?.() ?? [],
+
+    search: async (searchOptions: SearchOptions): Promise<SearchResponse> => {
+      const startTime = performance.now();
+
+      try {
+        // Hooks can rewrite the query or any other option
+        for (const hook of hooks) {
+          searchOptions =
+            (await hook.beforeSearch?.(searchOptions)) || searchOptions;
+        }
+
+        logger.debug(`[${driverName}] search "${searchOptions.query}"`);
+        let response = await driver.search(searchOptions);
+
+        // Hooks can filter, annotate or replace results
+        for (const hook of hooks) {
+          response =
+            (await hook.afterSearch?.(response, searchOptions)) || response;
+        }
+
+        logger.info(
+          `[${driverName}] search "${searchOptions.query}" returned ${response.results.length} results in ${Math.round(performance.now() - startTime)}ms`,
+        );
+        return response;
+      } catch (error) {
+        await reportError(error, { type: "search", options: searchOptions });
+        throw error;
+      }
+    },
+
+    // Yield partial responses as the driver gets results (e.g. hybrid drivers answering one by one)
+    // Drivers without streaming support yield their response once
+    searchStream: async function* (
+      searchOptions: SearchOptions,
+    ): AsyncGenerator<SearchResponse> {
+      const startTime = performance.now();
+      let response: SearchResponse | undefined;
+
+      try {
+        for (const hook of hooks) {
+          searchOptions =
+            (await hook.beforeSearch?.(searchOptions)) || searchOptions;
+        }
+
+        logger.debug(`[${driverName}] search stream "${searchOptions.query}"`);
+        const snapshots = driver.searchStream
+          ? driver.searchStream(searchOptions)
+          : [await driver.search(searchOptions)];
+
+        // Hooks run on every snapshot so partial results are filtered the same way
+        for await (response of snapshots) {
+          for (const hook of hooks) {
+            response =
+              (await hook.afterSearch?.(response, searchOptions)) || response;
+          }
+          yield response;
+        }
+      } catch (error) {
+        await reportError(error, { type: "search", options: searchOptions });
+        throw error;
+      }
+
+      logger.info(
+        `[${driverName}] search stream "${searchOptions.query}" returned ${response?.results.length ?? 0} results in ${Math.round(performance.now() - startTime)}ms`,
+      );
+    },
+
+    // Suggestions with the drivers that returned them
+    richSuggest,
+
+    suggest: async (suggestOptions: SuggestionOptions): Promise<string[]> =>
+      (await richSuggest(suggestOptions)).map(({ text }) => text),
   };
 
   return search;
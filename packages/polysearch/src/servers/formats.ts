@@ -0,0 +1,380 @@
+import type { SearchResponse } from "../types";
+
+// Escape text for XML and HTML content and attributes
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export interface SearchPageOptions {
+  title?: string; // Page title (default: PolySearch)
+  query: string;
+  searchUrl: string; // URL of the search endpoint, used by the form and pagination
+  nextUrl?: string; // URL of the next page
+}
+
+// Only link http(s) URLs, other schemes (javascript:, data:, ...) are shown as text
+function isSafeUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// HTML results page, e.g. for browsers using the server as their search engine
+export function renderSearchPage(
+  response: SearchResponse,
+  options: SearchPageOptions,
+): string {
+  const { title = "PolySearch", query, searchUrl, nextUrl } = options;
+
+  const results = response.results.map((result) => {
+    const link = isSafeUrl(result.url)
+      ? `<a href="${escapeXML(result.url)}">${escapeXML(result.title)}</a>`
+      : escapeXML(result.title);
+    const details = [
+      result.author,
+      result.publishedAt?.slice(0, 10),
+      result.sources?.join(", "),
+    ].filter(Boolean);
+
+    return `    <li>
+      <h2>${link}</h2>
+      <cite>${escapeXML(result.url)}</cite>${result.snippet ? `\n      <p>${escapeXML(result.snippet)}</p>` : ""}${details.length > 0 ? `\n      <small>${escapeXML(details.join(" · "))}</small>` : ""}
+    </li>`;
+  });
+
+  const errors = (response.errors || []).map(
+    (error) =>
+      `    <li>${escapeXML(error.driver ? `${error.driver}: ${error.message}` : error.message)}</li>`,
+  );
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXML(query ? `${query} - ${title}` : title)}</title>
+  <link rel="search" type="application/opensearchdescription+xml" title="${escapeXML(title)}" href="opensearch.xml">
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 0 auto; padding: 1rem; line-height: 1.4; }
+    form { display: flex; gap: 0.5rem; margin-bottom: 1.5rem; }
+    input { flex: 1; padding: 0.5rem; font-size: 1rem; }
+    ol { list-style: none; padding: 0; }
+    li { margin-bottom: 1.25rem; }
+    h2 { font-size: 1.1rem; margin: 0; }
+    cite { color: #0a7d32; font-style: normal; font-size: 0.85rem; word-break: break-all; }
+    p { margin: 0.25rem 0; }
+    small, .errors { color: #666; }
+  </style>
+</head>
+<body>
+  <form action="${escapeXML(searchUrl)}" method="get" role="search">
+    <input type="search" name="q" value="${escapeXML(query)}" aria-label="Search" autofocus>
+    <input type="hidden" name="format" value="html">
+    <button type="submit">Search</button>
+  </form>
+${results.length > 0 ? `  <ol>\n${results.join("\n")}\n  </ol>` : "  <p>No results found.</p>"}${errors.length > 0 ? `\n  <ul class="errors">\n${errors.join("\n")}\n  </ul>` : ""}${nextUrl ? `\n  <p><a href="${escapeXML(nextUrl)}" rel="next">Next page</a></p>` : ""}
+</body>
+</html>
+`;
+}
+
+// Media types of the search response formats selected with Accept
+// HTML is only served with format=html since browsers accept it for every request
+export const searchFormatTypes: Record<string, string[]> = {
+  json: ["application/json"],
+  atom: ["application/atom+xml"],
+  rss: ["application/rss+xml"],
+  csv: ["text/csv"],
+  ndjson: ["application/x-ndjson", "application/ndjson"],
+  markdown: ["text/markdown"],
+};
+
+// Format of the preferred media type of an Accept header, undefined when none is listed
+export function negotiateFormat(
+  accept: string,
+  formatTypes: Record<string, string[]>,
+): string | undefined {
+  const ranges = accept
+    .split(",")
+    .map((range, index) => {
+      const [type, ...params] = range.split(";").map((part) => part.trim());
+      const q = params.find((param) => /^q=/i.test(param));
+      return {
+        type: type.toLowerCase(),
+        q: q ? Number(q.slice(2)) || 0 : 1,
+        index,
+      };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { type } of ranges) {
+    const format = Object.keys(formatTypes).find((key) =>
+      formatTypes[key].includes(type),
+    );
+    if (format) {
+      return format;
+    }
+  }
+  return undefined;
+}
+
+export interface SearchFeedOptions {
+  title?: string; // Feed title (default: PolySearch)
+  query: string;
+  selfUrl: string; // URL of the feed
+  pageUrl: string; // URL of the HTML results page
+  nextUrl?: string; // URL of the next page of the feed
+  page?: number;
+  perPage?: number;
+}
+
+// Valid date of an ISO 8601 string
+function toDate(value?: string): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+// Latest date of the results, feeds need one even when no result is dated
+function getFeedDate(response: SearchResponse): Date {
+  const dates = response.results
+    .map((result) => toDate(result.updatedAt || result.publishedAt))
+    .filter((date) => date !== undefined);
+  return dates.length > 0
+    ? new Date(Math.max(...dates.map((date) => date.getTime())))
+    : new Date();
+}
+
+// OpenSearch response elements shared by the Atom and RSS feeds
+function renderOpenSearchElements(
+  response: SearchResponse,
+  options: SearchFeedOptions,
+  indent: string,
+): string {
+  const { page = 1, perPage } = { ...options, ...response.pagination };
+  return [
+    response.totalResults === undefined
+      ? ""
+      : `<opensearch:totalResults>${response.totalResults}</opensearch:totalResults>`,
+    perPage
+      ? `<opensearch:startIndex>${(page - 1) * perPage + 1}</opensearch:startIndex>`
+      : "",
+    perPage
+      ? `<opensearch:itemsPerPage>${perPage}</opensearch:itemsPerPage>`
+      : "",
+    `<opensearch:Query role="request" searchTerms="${escapeXML(options.query)}"${perPage ? ` startPage="${page}"` : ""}/>`,
+  ]
+    .filter(Boolean)
+    .map((element) => `${indent}${element}`)
+    .join("\n");
+}
+
+// Atom feed of the results, e.g. to subscribe to a saved search in a feed reader
+export function renderAtomFeed(
+  response: SearchResponse,
+  options: SearchFeedOptions,
+): string {
+  const { title = "PolySearch", query, selfUrl, pageUrl, nextUrl } = options;
+  const updated = getFeedDate(response).toISOString();
+
+  const entries = response.results.map((result) => {
+    const published = toDate(result.publishedAt)?.toISOString();
+    const elements = [
+      `<id>${escapeXML(result.url)}</id>`,
+      `<title>${escapeXML(result.title)}</title>`,
+      isSafeUrl(result.url)
+        ? `<link rel="alternate" href="${escapeXML(result.url)}"/>`
+        : "",
+      `<updated>${toDate(result.updatedAt)?.toISOString() || published || updated}</updated>`,
+      published ? `<published>${published}</published>` : "",
+      result.author
+        ? `<author><name>${escapeXML(result.author)}</name></author>`
+        : "",
+      result.snippet ? `<summary>${escapeXML(result.snippet)}</summary>` : "",
+      ...(result.sources || []).map(
+        (source) => `<category term="${escapeXML(source)}"/>`,
+      ),
+      result.kind ? `<category term="${escapeXML(result.kind)}"/>` : "",
+      result.thumbnail && isSafeUrl(result.thumbnail)
+        ? `<media:thumbnail url="${escapeXML(result.thumbnail)}"/>`
+        : "",
+    ].filter(Boolean);
+    return `  <entry>\n${elements.map((element) => `    ${element}`).join("\n")}\n  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <id>${escapeXML(selfUrl)}</id>
+  <title>${escapeXML(`${query} - ${title}`)}</title>
+  <updated>${updated}</updated>
+  <author><name>${escapeXML(title)}</name></author>
+  <link rel="self" type="application/atom+xml" href="${escapeXML(selfUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXML(pageUrl)}"/>${nextUrl ? `\n  <link rel="next" type="application/atom+xml" href="${escapeXML(nextUrl)}"/>` : ""}
+${renderOpenSearchElements(response, options, "  ")}
+${entries.join("\n")}
+</feed>
+`;
+}
+
+// RSS 2.0 feed of the results
+export function renderRSSFeed(
+  response: SearchResponse,
+  options: SearchFeedOptions,
+): string {
+  const { title = "PolySearch", query, selfUrl, pageUrl, nextUrl } = options;
+
+  const items = response.results.map((result) => {
+    const date = toDate(result.publishedAt || result.updatedAt);
+    const elements = [
+      `<title>${escapeXML(result.title)}</title>`,
+      isSafeUrl(result.url) ? `<link>${escapeXML(result.url)}</link>` : "",
+      `<guid isPermaLink="${isSafeUrl(result.url)}">${escapeXML(result.url)}</guid>`,
+      result.snippet
+        ? `<description>${escapeXML(result.snippet)}</description>`
+        : "",
+      date ? `<pubDate>${date.toUTCString()}</pubDate>` : "",
+      result.author
+        ? `<dc:creator>${escapeXML(result.author)}</dc:creator>`
+        : "",
+      ...(result.sources || []).map(
+        (source) => `<category>${escapeXML(source)}</category>`,
+      ),
+      result.thumbnail && isSafeUrl(result.thumbnail)
+        ? `<media:thumbnail url="${escapeXML(result.thumbnail)}"/>`
+        : "",
+    ].filter(Boolean);
+    return `    <item>\n${elements.map((element) => `      ${element}`).join("\n")}\n    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${escapeXML(`${query} - ${title}`)}</title>
+    <link>${escapeXML(pageUrl)}</link>
+    <description>${escapeXML(`Search results for "${query}"`)}</description>
+    <lastBuildDate>${getFeedDate(response).toUTCString()}</lastBuildDate>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeXML(selfUrl)}"/>${nextUrl ? `\n    <atom:link rel="next" type="application/rss+xml" href="${escapeXML(nextUrl)}"/>` : ""}
+${renderOpenSearchElements(response, options, "    ")}
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+// Columns of the CSV export, sources are joined with ; and meta is JSON encoded
+const csvColumns = [
+  "title",
+  "url",
+  "snippet",
+  "sources",
+  "kind",
+  "publishedAt",
+  "updatedAt",
+  "author",
+  "thumbnail",
+  "favicon",
+  "score",
+  "meta",
+] as const;
+
+// Quote a CSV field (RFC 4180), text starting like a formula is prefixed with '
+// so spreadsheets do not evaluate it
+function escapeCSV(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV table of the results with a header row
+export function renderCSV(response: SearchResponse): string {
+  const rows = response.results.map((result) =>
+    csvColumns.map((column) => {
+      if (column === "sources") {
+        return escapeCSV(result.sources?.join(";"));
+      }
+      if (column === "meta") {
+        return escapeCSV(result.meta ? JSON.stringify(result.meta) : undefined);
+      }
+      return escapeCSV(result[column]);
+    }),
+  );
+  return [csvColumns, ...rows].map((row) => `${row.join(",")}\r\n`).join("");
+}
+
+// Newline-delimited JSON, one result per line
+export function renderNDJSON(response: SearchResponse): string {
+  return response.results
+    .map((result) => `${JSON.stringify(result)}\n`)
+    .join("");
+}
+
+// Escape text for Markdown, e.g. brackets in titles would break links
+function escapeMarkdown(value: string): string {
+  return value.replace(/[\\`*_[\]<>#|~]/g, "\\$&").replace(/\s+/g, " ");
+}
+
+export interface SearchMarkdownOptions {
+  query: string;
+  nextUrl?: string;
+}
+
+// Markdown list of the results, e.g. to paste them into a chat or a prompt
+export function renderMarkdown(
+  response: SearchResponse,
+  options: SearchMarkdownOptions,
+): string {
+  const lines = [`# Search results for "${escapeMarkdown(options.query)}"`, ""];
+
+  if (response.totalResults !== undefined) {
+    lines.push(`${response.totalResults} results`, "");
+  }
+
+  for (const [index, result] of response.results.entries()) {
+    const title = escapeMarkdown(result.title);
+    lines.push(
+      isSafeUrl(result.url)
+        ? `${index + 1}. [${title}](<${result.url.replace(/[<>\s]/g, encodeURIComponent)}>)`
+        : `${index + 1}. ${title} (${escapeMarkdown(result.url)})`,
+    );
+    const details = [
+      result.author,
+      toDate(result.publishedAt)?.toISOString().slice(0, 10),
+      result.sources?.join(", "),
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push(`   ${escapeMarkdown(details.join(" · "))}`);
+    }
+    if (result.snippet) {
+      lines.push(`   > ${escapeMarkdown(result.snippet)}`);
+    }
+  }
+
+  if (response.results.length === 0) {
+    lines.push("No results found.");
+  }
+
+  if (response.errors && response.errors.length > 0) {
+    lines.push(
+      "",
+      "Errors:",
+      ...response.errors.map(
+        (error) =>
+          `- ${escapeMarkdown(error.driver ? `${error.driver}: ${error.message}` : error.message)}`,
+      ),
+    );
+  }
+
+  if (options.nextUrl) {
+    lines.push("", `[Next page](<${options.nextUrl}>)`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -1,4 +1,5 @@
 import {
+  createEventStream,
   defineHandler,
   EventHandlerWithFetch,
   H3,
@@ -6,71 +7,767 @@ import {
   HTTPError,
   serve,
   getQuery,
+  getRequestIP,
+  handleCors,
+  redirect,
+  type CorsOptions,
 } from "h3";
+import { isAbortError, PolySearchError } from "../errors";
+import {
+  coerceQuery,
+  getSearchOptionsSchema,
+  getSuggestionOptionsSchema,
+  validateSchema,
+  type JSONSchema,
+  type ValidationIssue,
+} from "../schema";
 import { createPolySearch } from "../search";
-import { Driver, SearchOptions, SuggestionOptions } from "../types";
+import {
+  Driver,
+  DriverDescription,
+  SearchErrorCode,
+  SearchOptions,
+  MaybePromise,
+  SearchResponse,
+  SuggestionOptions,
+} from "../types";
+import {
+  negotiateFormat,
+  renderAtomFeed,
+  renderCSV,
+  renderMarkdown,
+  renderNDJSON,
+  renderRSSFeed,
+  renderSearchPage,
+  searchFormatTypes,
+} from "./formats";
+import { createServerMetrics } from "./metrics";
+import { createOpenAPISpec } from "./openapi";
+import {
+  createOpenSearchDescription,
+  toOpenSearchSuggestions,
+} from "./opensearch";
+import {
+  createRateLimiter,
+  getRateLimitHeaders,
+  type RateLimitAlgorithm,
+  type RateLimiterOptions,
+  type RateLimitPolicy,
+} from "./rate-limit";
 
 export type PolySearchServerRequest = {
   request: globalThis.Request;
-  type: "search" | "suggest";
+  type:
+    | "search"
+    | "suggest"
+    | "capabilities"
+    | "health"
+    | "openapi"
+    | "drivers"
+    | "info"
+    | "metrics"
+    | "opensearch";
   query: string;
+  driver?: string; // Name of the mounted driver (servers with several drivers)
 };
 
+// Rate limit of /search and /suggest requests, counted per client, mounted driver and endpoint
+export interface PolySearchRateLimitOptions extends RateLimiterOptions {
+  limit?: number; // Requests allowed per window (default: 60)
+  window?: number; // Window in seconds (default: 60)
+  algorithm?: RateLimitAlgorithm; // Default: sliding-window
+  search?: RateLimitPolicy | false; // Limit of /search (false to disable)
+  suggest?: RateLimitPolicy | false; // Limit of /suggest (false to disable)
+  // Client of a request, falls back to the IP address when no key is found
+  // - ip: IP address of the client
+  // - api-key: value returned by authorize
+  // - function: custom key (e.g. a header or a user id)
+  key?:
+    | "ip"
+    | "api-key"
+    | ((
+        event: H3Event,
+        request: PolySearchServerRequest,
+      ) => MaybePromise<string | undefined>);
+  trustProxy?: boolean; // Read the IP address from X-Forwarded-For (default: false)
+}
+
 export interface PolySearchServerOptions {
-  driver?: Driver;
-  authorize?: (request: PolySearchServerRequest) => void | Promise<void>;
+  driver?: Driver; // Served at the root (/search, /suggest, ...)
+  drivers?: Record<string, Driver>; // Served under their name (/npm/search, /github/suggest, ...)
+  // Throw to reject a request, return an API key to rate limit by it
+  authorize?: (
+    request: PolySearchServerRequest,
+  ) => void | string | Promise<void | string>;
   resolvePath?: (event: H3Event) => string;
+  name?: string; // API title in /openapi.json (default: PolySearch)
+  version?: string; // API version in /openapi.json
+  rateLimit?: PolySearchRateLimitOptions;
+  cors?: CorsOptions | false; // Default: any origin, false to send no CORS headers
+  cacheControl?: string | false; // Cache-Control of GET /search and /suggest (default: max-age from the driver cache TTL)
+  opensearch?: PolySearchOpenSearchOptions | false; // false to not serve /opensearch.xml
+}
+
+// OpenSearch description served at /opensearch.xml (and /<driver>/opensearch.xml)
+export interface PolySearchOpenSearchOptions {
+  shortName?: string; // Name shown by browsers (default: server name and driver name)
+  description?: string;
+  baseUrl?: string; // Public URL of the server (default: URL of the request)
+  searchFormat?: "html" | "redirect"; // Search page opened by browsers: results page or first result (default: html)
+}
+
+// HTTP status for each driver error code
+const errorStatus: Record<SearchErrorCode, number> = {
+  "rate-limit": 429,
+  auth: 502,
+  upstream: 502,
+  timeout: 504,
+  parse: 502,
+  unavailable: 503,
+  "invalid-request": 400,
+};
+
+// Convert driver errors thrown in "throw" mode to HTTP errors
+function toHTTPError(error: unknown): unknown {
+  if (!(error instanceof PolySearchError)) {
+    return error;
+  }
+
+  const data = error.toJSON();
+  return new HTTPError({
+    status: errorStatus[error.code],
+    message: error.message,
+    data,
+    cause: error,
+    headers:
+      data.retryAfter !== undefined
+        ? { "Retry-After": String(data.retryAfter) }
+        : undefined,
+  });
+}
+
+// Truncated SHA-256 of a value, for ETags and so that API keys are not stored in plain text
+async function hashValue(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// Check the rate limit of a /search or /suggest request and set the RateLimit-* headers
+// Rejected requests throw a 429 with Retry-After
+async function checkRateLimit(
+  event: H3Event,
+  rateLimiter: ReturnType<typeof createRateLimiter>,
+  options: PolySearchRateLimitOptions,
+  request: PolySearchServerRequest,
+  apiKey: string | void,
+): Promise<void> {
+  const endpoint = request.type as "search" | "suggest";
+  const policy = options[endpoint] ?? {
+    limit: options.limit ?? 60,
+    window: options.window ?? 60,
+    algorithm: options.algorithm,
+  };
+  if (!policy) {
+    return;
+  }
+
+  const { key = "ip" } = options;
+  const customKey =
+    typeof key === "function"
+      ? await key(event, request)
+      : key === "api-key"
+        ? apiKey || undefined
+        : undefined;
+  const client = customKey
+    ? `key:${await hashValue(customKey)}`
+    : `ip:${getRequestIP(event, { xForwardedFor: options.trustProxy }) || "unknown"}`;
+
+  // Each mounted driver has its own quota, the root driver is mounted at /
+  const mount = `/${request.driver ?? ""}`;
+  const result = await rateLimiter.consume(
+    `${mount}:${endpoint}:${client}`,
+    policy,
+  );
+  const headers = getRateLimitHeaders(result);
+
+  if (!result.allowed) {
+    throw new HTTPError({
+      status: 429,
+      message: `Too many requests, retry in ${result.retryAfter}s`,
+      headers,
+    });
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    event.res.headers.set(name, value);
+  }
+}
+
+// Whether an If-None-Match header matches an ETag (weak comparison)
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+// Send a JSON response
+function sendJSON(
+  event: H3Event,
+  value: unknown,
+  cacheControl?: string,
+): Promise<string | Response> {
+  return sendBody(event, JSON.stringify(value, null, 2), cacheControl);
+}
+
+// Send a response, GET responses get an ETag and a 304 when the client already has them
+async function sendBody(
+  event: H3Event,
+  body: string,
+  cacheControl?: string,
+): Promise<string | Response> {
+  if (event.req.method !== "GET" && event.req.method !== "HEAD") {
+    return body;
+  }
+
+  const etag = `"${await hashValue(body)}"`;
+  event.res.headers.set("ETag", etag);
+  if (cacheControl) {
+    event.res.headers.set("Cache-Control", cacheControl);
+  }
+
+  if (matchesETag(event.req.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers: event.res.headers });
+  }
+  return body;
+}
+
+// 422 error listing the invalid options
+function invalidOptions(issues: ValidationIssue[]): HTTPError {
+  return new HTTPError({
+    status: 422,
+    message: `Invalid options: ${issues.map((issue) => `${issue.path} ${issue.message}`).join(", ")}`,
+    data: { issues },
+  });
+}
+
+// URL of the next page in a response format, with the cursor or the page number
+function getNextPageUrl(
+  searchUrl: string,
+  searchOptions: SearchOptions,
+  response: SearchResponse,
+  format: string,
+): string | undefined {
+  const params = new URLSearchParams({ q: searchOptions.query, format });
+  const { nextCursor, page, perPage } = response.pagination || {};
+
+  if (nextCursor) {
+    params.set("cursor", nextCursor);
+  } else if (
+    response.results.length > 0 &&
+    response.results.length >= (perPage ?? searchOptions.perPage ?? Infinity)
+  ) {
+    params.set("page", String((page ?? searchOptions.page ?? 1) + 1));
+    if (searchOptions.perPage) {
+      params.set("perPage", String(searchOptions.perPage));
+    }
+  } else {
+    return undefined;
+  }
+  return `${searchUrl}?${params}`;
+}
+
+// Read options from the JSON body of POST requests or from the query string (also for POST requests without a body),
+// q is accepted as an alias of query and invalid options are rejected with a 422
+async function readOptions(
+  event: H3Event,
+  schema: JSONSchema,
+): Promise<Record<string, any>> {
+  let input: unknown;
+  const body = event.req.method === "POST" ? await event.req.text() : "";
+
+  if (body.trim()) {
+    try {
+      input = JSON.parse(body);
+    } catch {
+      throw HTTPError.status(400, "Request body must be valid JSON");
+    }
+  } else {
+    // Parameters controlling the response are not driver options
+    const {
+      stream: _stream,
+      sources: _sources,
+      format: _format,
+      ...params
+    } = getQuery(event);
+    input = coerceQuery(params, schema);
+  }
+
+  if (input && typeof input === "object" && !Array.isArray(input)) {
+    const { q, ...options } = input as Record<string, unknown>;
+    input = { ...options, query: options.query ?? q };
+  }
+
+  const issues = validateSchema(input, schema);
+  if (issues.length > 0) {
+    throw invalidOptions(issues);
+  }
+
+  return input as Record<string, any>;
+}
+
+// Send each partial response as a "snapshot" event, then a "done" event
+// Failures are sent as an "error" event since the status is already sent
+function streamSearch(
+  event: H3Event,
+  searchInstance: ReturnType<typeof createPolySearch>,
+  searchOptions: SearchOptions,
+) {
+  const stream = createEventStream(event);
+
+  void (async () => {
+    try {
+      for await (const response of searchInstance.searchStream(searchOptions)) {
+        await stream.push({
+          event: "snapshot",
+          data: JSON.stringify(response),
+        });
+      }
+      await stream.push({ event: "done", data: "{}" });
+    } catch (error) {
+      // The client is gone
+      if (isAbortError(error)) {
+        return;
+      }
+      const httpError = toHTTPError(error);
+      await stream.push({
+        event: "error",
+        data: JSON.stringify(
+          HTTPError.isError(httpError)
+            ? {
+                status: httpError.status,
+                message: httpError.message,
+                data: httpError.data,
+              }
+            : { status: 500, message: "Internal Server Error" },
+        ),
+      });
+    } finally {
+      await stream.close();
+    }
+  })();
+
+  return stream.send();
+}
+
+// Endpoints served for each driver
+const driverEndpoints = [
+  "search",
+  "suggest",
+  "capabilities",
+  "health",
+  "opensearch.xml",
+];
+
+// Values of the format parameter of each endpoint
+const responseFormats: Record<string, string[]> = {
+  search: [
+    "json",
+    "html",
+    "redirect",
+    "atom",
+    "rss",
+    "csv",
+    "ndjson",
+    "markdown",
+  ],
+  suggest: ["json", "opensearch"],
+};
+
+// Endpoints served once for the server ("" is the server info)
+const serverEndpoints = [
+  "",
+  "info",
+  "health",
+  "metrics",
+  "openapi.json",
+  "drivers",
+];
+
+// Driver mounted on the server with its search instance and option schemas
+interface MountedDriver {
+  name?: string; // Key in the drivers option (undefined for the root driver)
+  basePath: string;
+  searchInstance: ReturnType<typeof createPolySearch>;
+  description: DriverDescription;
+  searchSchema: JSONSchema;
+  suggestSchema: JSONSchema;
+}
+
+// Endpoint of a request, with the driver it is sent to
+interface Route {
+  endpoint: string;
+  mounted?: MountedDriver;
+  named?: boolean; // Sent to a driver of the drivers option
+}
+
+// Name of a mounted driver in responses and metrics
+function getDriverLabel(mounted: MountedDriver): string {
+  return mounted.name || mounted.description.name;
+}
+
+// Readiness of a mounted driver, drivers are ready unless the circuits of all their upstream drivers are open
+function getDriverReadiness(mounted: MountedDriver) {
+  const health = mounted.searchInstance.health();
+  return {
+    ...(mounted.name && { name: mounted.name }),
+    driver: mounted.description.name,
+    path: mounted.basePath || "/",
+    ready: health.length === 0 || health.some(({ state }) => state !== "open"),
+    health,
+  };
+}
+
+function mountDriver(driver: Driver, name?: string): MountedDriver {
+  const searchInstance = createPolySearch({ driver });
+  const description = searchInstance.describe();
+
+  return {
+    name,
+    basePath: name ? `/${name}` : "",
+    searchInstance,
+    description,
+    searchSchema: getSearchOptionsSchema(description.capabilities),
+    suggestSchema: getSuggestionOptionsSchema(),
+  };
 }
 
 /**
  * This function creates a fetch handler for your search server.
  *
  * The search server will handle search and suggestion endpoints:
- * - /search: Perform search with query parameters
- * - /suggest: Get suggestions with query parameters
+ * - /search: Perform search with query parameters or a JSON body
+ * - /suggest: Get suggestions with query parameters or a JSON body
+ * - /capabilities: Describe the driver and what it supports
+ * - /health: Liveness of the server and readiness of each driver
+ * - /info (or /): Server name, version and drivers
+ * - /metrics: Prometheus metrics
+ * - /openapi.json: OpenAPI document of the endpoints and driver options
+ * - /drivers: List the mounted drivers
+ * - /opensearch.xml: OpenSearch description to add the server to browsers
+ *
+ * Drivers passed in the drivers option are served under their name
+ * (e.g. /npm/search, /github/suggest), the driver option at the root.
  *
  * API Endpoints:
  * - GET /search?q=typescript&page=1&perPage=10 - Search with query parameters
+ * - GET /search?q=typescript&stream=true - Stream partial results as Server-Sent Events
+ * - GET /search?q=typescript&format=html - HTML results page (format=redirect opens the first result)
+ * - GET /search?q=typescript&format=atom - Atom feed (also rss, csv, ndjson and markdown, or with Accept)
+ * - POST /search {"query":"typescript","page":1} - Search with a JSON body (SearchOptions)
  * - GET /suggest?q=typescript - Get suggestions with query parameters
+ * - GET /suggest?q=typescript&limit=5&sources=true - Get suggestions as { text, sources } objects
+ * - GET /suggest?q=typescript&format=opensearch - OpenSearch Suggestions (or send Accept: application/x-suggestions+json)
+ * - POST /suggest {"query":"typescript","limit":5} - Get suggestions with a JSON body
+ * - GET /capabilities - Driver name and capabilities (no query required)
+ * - GET /health - Readiness of each driver, 503 when no driver is ready (no query required)
+ * - GET /npm/health - Failure rate, latency and circuit state of the npm driver, 503 when it is not ready
+ * - GET /info - Server name, version, drivers and capabilities (no query required)
+ * - GET /metrics - Request counts, latency histograms, cache hit ratio and upstream errors
+ * - GET /openapi.json - OpenAPI 3.1 document of every driver (no query required)
+ * - GET /drivers - Names, paths and capabilities of the mounted drivers (no query required)
+ * - GET /opensearch.xml - OpenSearch description of the root driver (GET /npm/opensearch.xml for a mounted driver)
+ * - GET /npm/search?q=typescript - Search with the driver mounted as npm
  *
  * Query Parameters:
  * - q (required): Search query string
  * - page: Page number for pagination (default: 1)
  * - perPage: Results per page (default: 10)
+ * - cursor: pagination.nextCursor of the previous page (hybrid driver)
+ * - stream: "true" to stream results as Server-Sent Events (or send Accept: text/event-stream)
+ * - format: Response format, "json", "html", "redirect", "atom", "rss", "csv", "ndjson" or "markdown" for search, "json" or "opensearch" for suggest
  * - cache: Cache configuration as JSON string (e.g., {"ttl":300,"maxItems":100})
+ * - errors: Error mode ("throw" responds with an HTTP error, "report" adds an errors array)
  * - Other parameters are passed through to the driver
  *
+ * Options are validated against the driver capabilities (see /openapi.json),
+ * invalid options are rejected with a 422 listing the issues.
+ * With the rateLimit option, clients exceeding their quota get a 429.
+ * GET responses get an ETag (304 when unchanged) and search and suggest
+ * responses a Cache-Control derived from the driver cache TTL.
+ *
  * @param options Search server configuration options
  * @returns An object containing the handler function
  */
 export function createSearchHandler(
   opts: PolySearchServerOptions,
 ): EventHandlerWithFetch {
-  if (!opts.driver) {
+  const drivers = Object.entries(opts.drivers || {});
+  if (!opts.driver && drivers.length === 0) {
     throw new Error("Driver is required");
   }
 
-  const searchInstance = createPolySearch({ driver: opts.driver });
+  for (const [name] of drivers) {
+    if (
+      !/^[\w-]+$/.test(name) ||
+      [...driverEndpoints, ...serverEndpoints].includes(name)
+    ) {
+      throw new Error(`Invalid driver name: ${name}`);
+    }
+  }
 
-  const handler = defineHandler(async (event) => {
-    const path = opts.resolvePath?.(event) ?? event.url.pathname;
+  const rootDriver = opts.driver ? mountDriver(opts.driver) : undefined;
+  const namedDrivers = new Map(
+    drivers.map(([name, driver]) => [name, mountDriver(driver, name)]),
+  );
+  const mountedDrivers = [
+    ...(rootDriver ? [rootDriver] : []),
+    ...namedDrivers.values(),
+  ];
+  const rateLimiter = opts.rateLimit && createRateLimiter(opts.rateLimit);
+  const metrics = createServerMetrics();
+
+  // Names, paths and capabilities of the mounted drivers
+  const listDrivers = () =>
+    mountedDrivers.map(({ name, basePath, description }) => ({
+      ...(name && { name }),
+      driver: description.name,
+      path: basePath || "/",
+      capabilities: description.capabilities,
+    }));
+
+  // Server endpoints first, then the driver mounted at the first path segment, then the root driver
+  const resolveRoute = (cleanPath: string): Route | undefined => {
+    if (serverEndpoints.includes(cleanPath)) {
+      return { endpoint: cleanPath || "info" };
+    }
+
+    const [first, ...rest] = cleanPath.split("/");
+    const named = rest.length === 1 ? namedDrivers.get(first) : undefined;
+    const mounted = named || rootDriver;
+    const endpoint = named ? rest[0] : cleanPath;
+
+    if (mounted && driverEndpoints.includes(endpoint)) {
+      return { endpoint, mounted, named: Boolean(named) };
+    }
+    return undefined;
+  };
+
+  // Count errors reported in a response, or thrown in "throw" mode
+  // Drivers skipped by their circuit breaker and rejected options sent no upstream request
+  const recordUpstreamErrors = (
+    mounted: MountedDriver,
+    errors: Array<{ code: string; driver?: string }> = [],
+  ) => {
+    for (const error of errors.filter(
+      ({ code }) => code !== "unavailable" && code !== "invalid-request",
+    )) {
+      metrics.recordUpstreamError({
+        driver: getDriverLabel(mounted),
+        upstream: error.driver || mounted.description.name,
+        code: error.code,
+      });
+    }
+  };
+
+  const cors: CorsOptions | false = opts.cors !== false && {
+    origin: "*",
+    methods: ["GET", "HEAD", "POST", "OPTIONS"],
+    exposeHeaders: [
+      "ETag",
+      "Retry-After",
+      "RateLimit-Policy",
+      "RateLimit-Limit",
+      "RateLimit-Remaining",
+      "RateLimit-Reset",
+      "Link",
+      "X-Total-Count",
+    ],
+    ...opts.cors,
+  };
+  if (cors && cors.credentials && (!cors.origin || cors.origin === "*")) {
+    throw new Error("CORS credentials require an origin allowlist");
+  }
+
+  // Cache-Control of search and suggest responses, shared caches only store public responses
+  const getCacheControl = (
+    mounted: MountedDriver,
+    response?: SearchResponse,
+  ): string | undefined => {
+    if (opts.cacheControl !== undefined) {
+      return opts.cacheControl || undefined;
+    }
+    // Empty responses expire like in the driver cache
+    const cache = mounted.searchInstance.cache;
+    const maxAge =
+      (response?.results.length === 0 ? cache?.negativeTtl : cache?.ttl) ?? 0;
+    if (maxAge <= 0 || response?.errors?.length) {
+      return "no-cache";
+    }
+    return `${opts.authorize ? "private" : "public"}, max-age=${maxAge}`;
+  };
+
+  const opensearch: PolySearchOpenSearchOptions | false = opts.opensearch !==
+    false && { ...opts.opensearch };
+
+  // Public URL of the endpoints of a driver, from the options or the request URL without its endpoint
+  const getBaseUrl = (event: H3Event, mounted: MountedDriver): string => {
+    if (opensearch && opensearch.baseUrl) {
+      return `${opensearch.baseUrl.replace(/\/+$/, "")}${mounted.basePath}`;
+    }
+    return `${event.url.origin}${event.url.pathname.replace(/\/+[^/]*\/*$/, "")}`;
+  };
+
+  // Search response in a feed, CSV, NDJSON or Markdown format
+  // Pagination and total results are also sent as Link and X-Total-Count headers
+  const sendSearchFormat = (
+    event: H3Event,
+    mounted: MountedDriver,
+    searchOptions: SearchOptions,
+    results: SearchResponse,
+    format: string,
+  ): Promise<string | Response> => {
+    const searchUrl = `${getBaseUrl(event, mounted)}/search`;
+    const nextUrl = getNextPageUrl(searchUrl, searchOptions, results, format);
+    if (nextUrl) {
+      event.res.headers.set("Link", `<${nextUrl}>; rel="next"`);
+    }
+    if (results.totalResults !== undefined) {
+      event.res.headers.set("X-Total-Count", String(results.totalResults));
+    }
+
+    const feedOptions = {
+      title: opts.name,
+      query: searchOptions.query,
+      selfUrl: `${searchUrl}${event.url.search}`,
+      pageUrl: `${searchUrl}?${new URLSearchParams({ q: searchOptions.query, format: "html" })}`,
+      nextUrl,
+      page: searchOptions.page,
+      perPage: searchOptions.perPage,
+    };
+
+    let body: string;
+    let contentType: string;
+    switch (format) {
+      case "atom": {
+        body = renderAtomFeed(results, feedOptions);
+        contentType = "application/atom+xml; charset=utf-8";
+        break;
+      }
+      case "rss": {
+        body = renderRSSFeed(results, feedOptions);
+        contentType = "application/rss+xml; charset=utf-8";
+        break;
+      }
+      case "csv": {
+        body = renderCSV(results);
+        contentType = "text/csv; charset=utf-8; header=present";
+        event.res.headers.set(
+          "Content-Disposition",
+          'attachment; filename="search.csv"',
+        );
+        break;
+      }
+      case "ndjson": {
+        body = renderNDJSON(results);
+        contentType = "application/x-ndjson";
+        break;
+      }
+      default: {
+        body = renderMarkdown(results, {
+          query: searchOptions.query,
+          nextUrl,
+        });
+        contentType = "text/markdown; charset=utf-8";
+      }
+    }
+
+    event.res.headers.set("Content-Type", contentType);
+    return sendBody(event, body, getCacheControl(mounted, results));
+  };
+
+  const handleRequest = async (event: H3Event, route?: Route) => {
+    // Answer preflight requests before anything else
+    if (cors) {
+      const preflight = handleCors(event, cors);
+      if (preflight !== false) {
+        return preflight;
+      }
+    }
+    if (event.req.method === "OPTIONS") {
+      event.res.headers.set("Allow", "GET, HEAD, POST, OPTIONS");
+      event.res.status = 204;
+      return null;
+    }
+
+    if (!route) {
+      throw HTTPError.status(
+        404,
+        rootDriver
+          ? "Not Found: Use /search, /suggest, /capabilities, /health, /info, /metrics, /openapi.json or /drivers"
+          : `Not Found: Use /<driver>/search, /<driver>/suggest, /<driver>/capabilities, /<driver>/health (drivers: ${[...namedDrivers.keys()].join(", ")}), /health, /info, /metrics, /openapi.json or /drivers`,
+      );
+    }
+
+    const { endpoint, mounted } = route;
     const queryParams = getQuery(event);
-    const q = queryParams.q || queryParams.query;
 
-    if (!q) {
-      throw HTTPError.status(400, "Query parameter 'q' or 'query' is required");
+    // Response format of search and suggest requests
+    const format =
+      typeof queryParams.format === "string" ? queryParams.format : undefined;
+    if (format && !responseFormats[endpoint]?.includes(format)) {
+      throw invalidOptions([
+        {
+          path: "format",
+          message: `must be one of ${(responseFormats[endpoint] || []).map((value) => JSON.stringify(value)).join(", ")}`,
+        },
+      ]);
     }
 
-    // Clean path for endpoint comparison
-    const cleanPath = path.replace(/^\/+|\/+$/g, "");
+    // The HTML search page without a query shows the search form
+    const isSearchForm =
+      endpoint === "search" &&
+      format === "html" &&
+      !queryParams.q &&
+      !queryParams.query;
+
+    // Options of search and suggest requests, validated before authorization
+    let input: Record<string, any> = {};
+    if (
+      mounted &&
+      (endpoint === "search" || endpoint === "suggest") &&
+      !isSearchForm
+    ) {
+      input = await readOptions(
+        event,
+        endpoint === "search" ? mounted.searchSchema : mounted.suggestSchema,
+      );
+    }
+
+    const request: PolySearchServerRequest = {
+      type:
+        endpoint === "openapi.json"
+          ? "openapi"
+          : endpoint === "opensearch.xml"
+            ? "opensearch"
+            : (endpoint as PolySearchServerRequest["type"]),
+      request: event.req as Request,
+      query: input.query || "",
+      ...(route.named && { driver: mounted!.name }),
+    };
 
     // Authorize Request
+    let apiKey: string | void;
     try {
-      await opts.authorize?.({
-        type: cleanPath === "search" ? "search" : "suggest",
-        request: event.req as Request,
-        query: q,
-      });
+      apiKey = await opts.authorize?.(request);
     } catch (error: any) {
       const httpError = HTTPError.isError(error)
         ? error
@@ -82,65 +779,313 @@ export function createSearchHandler(
       throw httpError;
     }
 
+    // The search form page sends no upstream request
+    if (
+      rateLimiter &&
+      (request.type === "search" || request.type === "suggest") &&
+      !isSearchForm
+    ) {
+      await checkRateLimit(
+        event,
+        rateLimiter,
+        opts.rateLimit!,
+        request,
+        apiKey,
+      );
+    }
+
     // Set response headers
     event.res.headers.set("Content-Type", "application/json");
-    event.res.headers.set("Access-Control-Allow-Origin", "*");
 
-    // Handle different endpoints
-    if (cleanPath === "search") {
-      // Build search options with proper type conversion
+    // Handle server endpoints
+    if (endpoint === "info") {
+      return sendJSON(event, {
+        name: opts.name || "PolySearch",
+        version: opts.version || "0.0.0",
+        drivers: listDrivers(),
+      });
+    }
+
+    if (endpoint === "health" && !mounted) {
+      // The server is live when it answers, it is ready when any driver is ready
+      const drivers = mountedDrivers.map(getDriverReadiness);
+      const ready = drivers.filter((driver) => driver.ready).length;
+      const status =
+        ready === drivers.length
+          ? "ok"
+          : ready > 0
+            ? "degraded"
+            : "unavailable";
+
+      event.res.headers.set("Cache-Control", "no-store");
+      event.res.status = status === "unavailable" ? 503 : 200;
+      return JSON.stringify(
+        { status, uptime: metrics.uptime(), drivers },
+        null,
+        2,
+      );
+    }
+
+    if (endpoint === "metrics") {
+      const snapshots = await Promise.all(
+        mountedDrivers.map(async (mounted) => ({
+          driver: getDriverLabel(mounted),
+          cache: await mounted.searchInstance.cache?.stats(),
+          health: mounted.searchInstance.health(),
+        })),
+      );
+
+      event.res.headers.set("Content-Type", "text/plain; version=0.0.4");
+      event.res.headers.set("Cache-Control", "no-store");
+      return metrics.render(snapshots);
+    }
+
+    if (endpoint === "openapi.json") {
+      const spec = createOpenAPISpec(mountedDrivers, {
+        title: opts.name,
+        version: opts.version,
+        index: true,
+      });
+      return sendJSON(event, spec);
+    }
+
+    if (endpoint === "drivers") {
+      return sendJSON(event, {
+        drivers: listDrivers(),
+      });
+    }
+
+    const { searchInstance, description } = mounted!;
+
+    if (endpoint === "capabilities") {
+      return sendJSON(event, description);
+    }
+
+    if (endpoint === "health") {
+      const readiness = getDriverReadiness(mounted!);
+
+      event.res.headers.set("Cache-Control", "no-store");
+      event.res.status = readiness.ready ? 200 : 503;
+      return JSON.stringify(readiness, null, 2);
+    }
+
+    if (endpoint === "opensearch.xml") {
+      if (!opensearch) {
+        throw HTTPError.status(404, "Not Found: OpenSearch is disabled");
+      }
+
+      event.res.headers.set(
+        "Content-Type",
+        "application/opensearchdescription+xml; charset=utf-8",
+      );
+      return sendBody(
+        event,
+        createOpenSearchDescription({
+          shortName:
+            opensearch.shortName ||
+            [opts.name || "PolySearch", mounted!.name]
+              .filter(Boolean)
+              .join(" "),
+          description:
+            opensearch.description ||
+            `Search with the ${description.name} driver`,
+          baseUrl: getBaseUrl(event, mounted!),
+          suggest: description.capabilities.suggest,
+          searchFormat: opensearch.searchFormat,
+        }),
+      );
+    }
+
+    const accept = event.req.headers.get("accept") || "";
+
+    if (endpoint === "search") {
       const searchOptions: SearchOptions = {
-        query: q,
+        ...(input as SearchOptions),
+        signal: event.req.signal, // Abort the search when the client disconnects
       };
 
-      // Parse standard numeric parameters
-      if (queryParams.page) {
-        searchOptions.page = parseInt(queryParams.page as string, 10);
+      // Responses depend on Accept (JSON or Server-Sent Events)
+      event.res.headers.append("Vary", "Accept");
+
+      if (isSearchForm) {
+        event.res.headers.set("Content-Type", "text/html; charset=utf-8");
+        return sendBody(
+          event,
+          renderSearchPage(
+            { results: [] },
+            {
+              title: opts.name,
+              query: "",
+              searchUrl: `${getBaseUrl(event, mounted!)}/search`,
+            },
+          ),
+        );
       }
-      if (queryParams.perPage) {
-        searchOptions.perPage = parseInt(queryParams.perPage as string, 10);
+
+      // Stream partial responses as Server-Sent Events
+      if (
+        queryParams.stream === "true" ||
+        (!format && accept.includes("text/event-stream"))
+      ) {
+        return streamSearch(event, searchInstance, searchOptions);
       }
 
-      // Parse cache config (JSON string)
-      if (queryParams.cache) {
-        try {
-          searchOptions.cache = JSON.parse(queryParams.cache as string);
-        } catch {
-          // Invalid JSON, ignore
+      try {
+        const results = await searchInstance.search(searchOptions);
+        recordUpstreamErrors(mounted!, results.errors);
+
+        // Open the first result, or show the results page when there is none
+        const first = results.results[0];
+        if (format === "redirect" && first && /^https?:\/\//i.test(first.url)) {
+          event.res.headers.set("Cache-Control", "no-cache");
+          event.res.headers.set("Content-Type", "text/html; charset=utf-8");
+          return redirect(first.url, 302);
         }
-      }
 
-      // Pass through any other parameters (driver-specific options)
-      Object.entries(queryParams).forEach(([key, value]) => {
-        if (
-          !["q", "query", "page", "perPage", "cache"].includes(key) &&
-          value !== undefined
-        ) {
-          (searchOptions as any)[key] = value;
+        if (format === "html" || format === "redirect") {
+          const searchUrl = `${getBaseUrl(event, mounted!)}/search`;
+          event.res.headers.set("Content-Type", "text/html; charset=utf-8");
+          return sendBody(
+            event,
+            renderSearchPage(results, {
+              title: opts.name,
+              query: searchOptions.query,
+              searchUrl,
+              nextUrl: getNextPageUrl(
+                searchUrl,
+                searchOptions,
+                results,
+                "html",
+              ),
+            }),
+            getCacheControl(mounted!, results),
+          );
         }
-      });
 
-      const results = await searchInstance.search(searchOptions);
-      return JSON.stringify(results, null, 2);
+        // Feeds, spreadsheets and pipelines, selected with format or Accept
+        const alternateFormat =
+          format || negotiateFormat(accept, searchFormatTypes);
+        if (alternateFormat && alternateFormat !== "json") {
+          return sendSearchFormat(
+            event,
+            mounted!,
+            searchOptions,
+            results,
+            alternateFormat,
+          );
+        }
+
+        return sendJSON(event, results, getCacheControl(mounted!, results));
+      } catch (error) {
+        if (error instanceof PolySearchError) {
+          recordUpstreamErrors(mounted!, [error]);
+        }
+        throw toHTTPError(error);
+      }
     }
 
-    if (cleanPath === "suggest") {
-      const suggestOptions: SuggestionOptions = {
-        query: q,
-      };
+    const suggestOptions: SuggestionOptions = {
+      ...(input as SuggestionOptions),
+      signal: event.req.signal,
+    };
 
-      // Pass through any other parameters
-      Object.entries(queryParams).forEach(([key, value]) => {
-        if (!["q", "query"].includes(key) && value !== undefined) {
-          (suggestOptions as any)[key] = value;
-        }
-      });
+    // Responses depend on Accept (JSON or OpenSearch Suggestions)
+    event.res.headers.append("Vary", "Accept");
+
+    try {
+      // OpenSearch Suggestions for browsers, suggestions link to the search page
+      if (
+        format === "opensearch" ||
+        (!format && accept.includes("application/x-suggestions+json"))
+      ) {
+        const suggestions = await searchInstance.richSuggest(suggestOptions);
+        const searchUrl = `${getBaseUrl(event, mounted!)}/search`;
+        event.res.headers.set(
+          "Content-Type",
+          "application/x-suggestions+json; charset=utf-8",
+        );
+        return sendBody(
+          event,
+          JSON.stringify(
+            toOpenSearchSuggestions(
+              suggestOptions.query,
+              suggestions,
+              (text) =>
+                `${searchUrl}?${new URLSearchParams({ q: text, format: "html" })}`,
+            ),
+          ),
+          getCacheControl(mounted!),
+        );
+      }
+
+      // Suggestions with the drivers that returned them
+      if (queryParams.sources === "true") {
+        const suggestions = await searchInstance.richSuggest(suggestOptions);
+        return sendJSON(event, { suggestions }, getCacheControl(mounted!));
+      }
 
       const suggestions = await searchInstance.suggest(suggestOptions);
-      return JSON.stringify({ suggestions }, null, 2);
+      return sendJSON(event, { suggestions }, getCacheControl(mounted!));
+    } catch (error) {
+      if (error instanceof PolySearchError) {
+        recordUpstreamErrors(mounted!, [error]);
+      }
+      throw toHTTPError(error);
     }
+  };
+
+  const handler = defineHandler(async (event) => {
+    const startTime = performance.now();
+    const path = opts.resolvePath?.(event) ?? event.url.pathname;
+    const route = resolveRoute(path.replace(/^\/+|\/+$/g, ""));
+    let status = 500;
+
+    try {
+      const response = await handleRequest(event, route);
+      status =
+        response instanceof Response
+          ? response.status
+          : event.res.status || 200;
+      return response;
+    } catch (error) {
+      status = HTTPError.isError(error) ? error.status : 500;
+
+      // Error responses don't include the prepared headers, keep the CORS and rate limit headers
+      if (HTTPError.isError(error)) {
+        const headers = new Headers(event.res.headers);
+        error.headers?.forEach((value, name) => headers.set(name, value));
+        throw new HTTPError({
+          status: error.status,
+          statusText: error.statusText,
+          message: error.message,
+          data: error.data,
+          headers,
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      const endpoint = route?.endpoint || "unknown";
+      const driver = route?.mounted ? getDriverLabel(route.mounted) : "";
+      metrics.recordRequest({
+        endpoint,
+        driver,
+        method: event.req.method,
+        status,
+      });
 
-    throw HTTPError.status(404, "Not Found: Use /search or /suggest");
+      // Rejected requests (bad options, rate limited, ...) don't reach the driver
+      if (
+        route?.mounted &&
+        (endpoint === "search" || endpoint === "suggest") &&
+        (status < 400 || status >= 500)
+      ) {
+        metrics.observeLatency(
+          { driver, endpoint },
+          (performance.now() - startTime) / 1000,
+        );
+      }
+    }
   });
 
   return handler;
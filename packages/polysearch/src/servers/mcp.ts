@@ -0,0 +1,290 @@
+import { defineHandler, EventHandlerWithFetch, H3, serve } from "h3";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  getSearchOptionsSchema,
+  getSuggestionOptionsSchema,
+  validateSchema,
+  type JSONSchema,
+} from "../schema";
+import { createPolySearch } from "../search";
+import type {
+  Driver,
+  SearchOptions,
+  SearchResponse,
+  SuggestionOptions,
+} from "../types";
+
+export interface PolySearchMCPServerOptions {
+  driver?: Driver;
+  name?: string; // Server name reported to MCP clients (default: polysearch)
+  version?: string; // Server version reported to MCP clients
+}
+
+// JSON schema for the describe tool (no arguments)
+const describeInputSchema: Tool["inputSchema"] = {
+  type: "object",
+  properties: {},
+};
+
+// Render search response as plain text for MCP clients
+function renderSearchResponse(response: SearchResponse): string {
+  if (response.results.length === 0) {
+    return "No results found.";
+  }
+
+  const lines = response.results.map((result, index) => {
+    const parts = [`${index + 1}. ${result.title}`, `   ${result.url}`];
+    if (result.snippet) {
+      parts.push(`   ${result.snippet.replace(/\s+/g, " ").trim()}`);
+    }
+    if (result.sources?.length) {
+      parts.push(`   Sources: ${result.sources.join(", ")}`);
+    }
+    return parts.join("\n");
+  });
+
+  const { page, perPage } = response.pagination || {};
+  if (response.totalResults !== undefined || page !== undefined) {
+    const summary = [
+      response.totalResults !== undefined
+        ? `Total results: ${response.totalResults}`
+        : undefined,
+      page !== undefined ? `Page: ${page}` : undefined,
+      perPage !== undefined ? `Per page: ${perPage}` : undefined,
+    ].filter(Boolean);
+    lines.push(summary.join(" | "));
+  }
+
+  return lines.join("\n\n");
+}
+
+// Tool input schema from an options schema
+// Cache configuration is a server-side concern and is not exposed to clients
+function toInputSchema(schema: JSONSchema): Tool["inputSchema"] {
+  const { cache: _cache, ...properties } = schema.properties || {};
+  return { ...schema, type: "object", properties };
+}
+
+// Convert tool errors to MCP error results instead of protocol errors
+function toolError(error: unknown): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: error instanceof Error ? error.message : String(error),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * This function creates a low-level MCP server exposing the driver as tools.
+ *
+ * Tools:
+ * - search: Perform search with SearchOptions (query, page, perPage, ...)
+ * - suggest: Get suggestions with SuggestionOptions (only if the driver supports it)
+ * - describe: Get the driver name and capabilities
+ *
+ * A new server instance is required for each transport connection.
+ *
+ * @param opts MCP server configuration options
+ * @returns MCP server instance
+ */
+export function createMCPServerInstance(opts: PolySearchMCPServerOptions) {
+  if (!opts.driver) {
+    throw new Error("Driver is required");
+  }
+
+  const driver = opts.driver;
+  const driverName = driver.name || "unknown";
+  const searchInstance = createPolySearch({ driver });
+  const { capabilities } = searchInstance.describe();
+  const searchSchema = getSearchOptionsSchema(capabilities);
+  const suggestSchema = getSuggestionOptionsSchema();
+
+  const server = new Server(
+    {
+      name: opts.name || "polysearch",
+      version: opts.version || "0.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    },
+  );
+
+  const tools: Tool[] = [];
+
+  if (capabilities.search) {
+    tools.push({
+      name: "search",
+      description: `Search using the ${driverName} driver`,
+      inputSchema: toInputSchema(searchSchema),
+    });
+  }
+
+  if (capabilities.suggest) {
+    tools.push({
+      name: "suggest",
+      description: `Get autocomplete suggestions using the ${driverName} driver`,
+      inputSchema: toInputSchema(suggestSchema),
+    });
+  }
+
+  tools.push({
+    name: "describe",
+    description: `Describe the ${driverName} driver and the options it supports`,
+    inputSchema: describeInputSchema,
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra): Promise<CallToolResult> => {
+      const { name, arguments: args = {} } = request.params;
+      const query = typeof args.query === "string" ? args.query : "";
+
+      if (name === "describe") {
+        const description = searchInstance.describe();
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(description, null, 2) },
+          ],
+          structuredContent: { ...description },
+        };
+      }
+
+      // Only tools of supported capabilities are listed
+      if (
+        !(name === "search" && capabilities.search) &&
+        !(name === "suggest" && capabilities.suggest)
+      ) {
+        return toolError(new Error(`Unknown tool: ${name}`));
+      }
+
+      if (!query.trim()) {
+        return toolError(new Error("Argument 'query' is required"));
+      }
+
+      const issues = validateSchema(
+        args,
+        name === "search" ? searchSchema : suggestSchema,
+      );
+      if (issues.length > 0) {
+        return toolError(
+          new Error(
+            `Invalid arguments: ${issues.map((issue) => `${issue.path} ${issue.message}`).join(", ")}`,
+          ),
+        );
+      }
+
+      try {
+        if (name === "search") {
+          const searchOptions: SearchOptions = {
+            ...args,
+            query,
+            signal: extra.signal, // Cancelled when the client cancels the call
+          };
+          // Cache configuration is a server-side concern
+          delete searchOptions.cache;
+
+          const response = await searchInstance.search(searchOptions);
+          return {
+            content: [{ type: "text", text: renderSearchResponse(response) }],
+            structuredContent: { ...response },
+          };
+        }
+
+        const suggestOptions: SuggestionOptions = {
+          ...args,
+          query,
+          signal: extra.signal,
+        };
+        const suggestions = await searchInstance.suggest(suggestOptions);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                suggestions.length > 0
+                  ? suggestions.join("\n")
+                  : "No suggestions found.",
+            },
+          ],
+          structuredContent: { suggestions },
+        };
+      } catch (error) {
+        return toolError(error);
+      }
+    },
+  );
+
+  return server;
+}
+
+/**
+ * This function creates a fetch handler for the MCP streamable HTTP transport.
+ *
+ * The handler runs in stateless mode: each request gets its own server and
+ * transport, so it can be mounted on any path and scaled horizontally.
+ *
+ * @param opts MCP server configuration options
+ * @returns An event handler for h3
+ */
+export function createMCPHandler(
+  opts: PolySearchMCPServerOptions,
+): EventHandlerWithFetch {
+  if (!opts.driver) {
+    throw new Error("Driver is required");
+  }
+
+  const handler = defineHandler(async (event) => {
+    const server = createMCPServerInstance(opts);
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined, // Stateless mode
+      enableJsonResponse: true,
+    });
+
+    await server.connect(transport);
+
+    return transport.handleRequest(event.req as Request);
+  });
+
+  return handler;
+}
+
+/**
+ * Create a complete MCP server
+ *
+ * Usage:
+ * - stdio(): Serve over stdin/stdout (for local MCP clients)
+ * - serve(port): Serve streamable HTTP on /mcp
+ */
+export function createMCPServer(opts: PolySearchMCPServerOptions = {}): {
+  handler: EventHandlerWithFetch;
+  stdio: () => Promise<void>;
+  serve: (port?: number) => void;
+} {
+  const handler = createMCPHandler(opts);
+  const app = new H3().use("/mcp", handler);
+
+  return {
+    handler,
+    stdio: async () => {
+      const server = createMCPServerInstance(opts);
+      await server.connect(new StdioServerTransport());
+    },
+    serve: (port = 3000) => serve(app, { port }),
+  };
+}
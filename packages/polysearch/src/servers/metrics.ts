@@ -0,0 +1,269 @@
+import type { CacheStats, DriverHealth } from "../types";
+
+type Labels = Record<string, string>;
+
+// Sample of a metric, the suffix is appended to the metric name (e.g. _bucket)
+interface MetricSample {
+  labels: Labels;
+  value: number;
+  suffix?: string;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: MetricSample[];
+}
+
+// Latency histogram of one series
+interface Histogram {
+  labels: Labels;
+  counts: number[]; // Observations per bucket (not cumulative)
+  sum: number;
+  count: number;
+}
+
+// State of a mounted driver when the metrics are scraped
+export interface DriverMetricsSnapshot {
+  driver: string; // Mounted name or driver name
+  cache?: CacheStats;
+  health: DriverHealth[];
+}
+
+// Upper bounds (seconds) of the latency histogram buckets
+export const defaultLatencyBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+// Prometheus text exposition format of a metric family
+function renderFamily(family: MetricFamily): string {
+  return [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.samples.map(
+      ({ labels, value, suffix = "" }) =>
+        `${family.name}${suffix}${formatLabels(labels)} ${value}`,
+    ),
+  ].join("\n");
+}
+
+// Stable key of a label set
+function labelsKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels));
+}
+
+// Count requests, latencies and upstream errors of the search server
+// and render them with cache and circuit state in the Prometheus format
+export function createServerMetrics(buckets = defaultLatencyBuckets) {
+  const startedAt = Date.now();
+  const requests = new Map<string, { labels: Labels; value: number }>();
+  const errors = new Map<string, { labels: Labels; value: number }>();
+  const latencies = new Map<string, Histogram>();
+  const uptime = () => Math.round((Date.now() - startedAt) / 1000);
+
+  const increment = (
+    counters: Map<string, { labels: Labels; value: number }>,
+    labels: Labels,
+  ) => {
+    const key = labelsKey(labels);
+    const counter = counters.get(key);
+    if (counter) {
+      counter.value++;
+    } else {
+      counters.set(key, { labels, value: 1 });
+    }
+  };
+
+  return {
+    // Seconds since the metrics were created
+    uptime,
+
+    // Count a handled request
+    recordRequest(labels: {
+      endpoint: string;
+      driver: string;
+      method: string;
+      status: number;
+    }) {
+      increment(requests, { ...labels, status: String(labels.status) });
+    },
+
+    // Record the latency of a search or suggest request
+    observeLatency(
+      labels: { driver: string; endpoint: string },
+      seconds: number,
+    ) {
+      const key = labelsKey(labels);
+      let histogram = latencies.get(key);
+      if (!histogram) {
+        histogram = {
+          labels,
+          counts: buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        latencies.set(key, histogram);
+      }
+
+      const index = buckets.findIndex((bound) => seconds <= bound);
+      if (index !== -1) {
+        histogram.counts[index]++;
+      }
+      histogram.sum += seconds;
+      histogram.count++;
+    },
+
+    // Count a failed upstream request (thrown or reported in the response)
+    recordUpstreamError(labels: {
+      driver: string;
+      upstream: string;
+      code: string;
+    }) {
+      increment(errors, labels);
+    },
+
+    // Metrics in the Prometheus text exposition format
+    render(drivers: DriverMetricsSnapshot[]): string {
+      const families: MetricFamily[] = [
+        {
+          name: "polysearch_uptime_seconds",
+          help: "Seconds since the search server started",
+          type: "gauge",
+          samples: [{ labels: {}, value: uptime() }],
+        },
+        {
+          name: "polysearch_http_requests_total",
+          help: "HTTP requests handled by the search server",
+          type: "counter",
+          samples: [...requests.values()],
+        },
+        {
+          name: "polysearch_request_duration_seconds",
+          help: "Latency of search and suggest requests per driver",
+          type: "histogram",
+          samples: [...latencies.values()].flatMap(
+            ({ labels, counts, sum, count }) => {
+              let cumulative = 0;
+              return [
+                ...buckets.map((bound, index) => {
+                  cumulative += counts[index];
+                  return {
+                    labels: { ...labels, le: String(bound) },
+                    value: cumulative,
+                    suffix: "_bucket",
+                  };
+                }),
+                {
+                  labels: { ...labels, le: "+Inf" },
+                  value: count,
+                  suffix: "_bucket",
+                },
+                { labels, value: sum, suffix: "_sum" },
+                { labels, value: count, suffix: "_count" },
+              ];
+            },
+          ),
+        },
+        {
+          name: "polysearch_upstream_duration_seconds",
+          help: "Latency of the requests to each upstream driver",
+          type: "histogram",
+          samples: drivers.flatMap(({ driver, health }) =>
+            health.flatMap(({ name, latencyHistogram }) => {
+              if (!latencyHistogram) {
+                return [];
+              }
+              const labels = { driver, upstream: name };
+              return [
+                ...latencyHistogram.buckets.map(({ le, count }) => ({
+                  labels: { ...labels, le: String(le / 1000) },
+                  value: count,
+                  suffix: "_bucket",
+                })),
+                {
+                  labels: { ...labels, le: "+Inf" },
+                  value: latencyHistogram.count,
+                  suffix: "_bucket",
+                },
+                { labels, value: latencyHistogram.sum / 1000, suffix: "_sum" },
+                { labels, value: latencyHistogram.count, suffix: "_count" },
+              ];
+            }),
+          ),
+        },
+        {
+          name: "polysearch_upstream_errors_total",
+          help: "Failed upstream requests per driver and error code",
+          type: "counter",
+          samples: [...errors.values()],
+        },
+        {
+          name: "polysearch_cache_hits_total",
+          help: "Cache hits (fresh and stale) per driver",
+          type: "counter",
+          samples: drivers.flatMap(({ driver, cache }) =>
+            cache ? [{ labels: { driver }, value: cache.hits }] : [],
+          ),
+        },
+        {
+          name: "polysearch_cache_misses_total",
+          help: "Cache misses per driver",
+          type: "counter",
+          samples: drivers.flatMap(({ driver, cache }) =>
+            cache ? [{ labels: { driver }, value: cache.misses }] : [],
+          ),
+        },
+        {
+          name: "polysearch_cache_hit_ratio",
+          help: "Share of cache lookups that were hits per driver",
+          type: "gauge",
+          samples: drivers.flatMap(({ driver, cache }) =>
+            cache && cache.hits + cache.misses > 0
+              ? [
+                  {
+                    labels: { driver },
+                    value: cache.hits / (cache.hits + cache.misses),
+                  },
+                ]
+              : [],
+          ),
+        },
+        {
+          name: "polysearch_cache_entries",
+          help: "Entries stored in the cache per driver",
+          type: "gauge",
+          samples: drivers.flatMap(({ driver, cache }) =>
+            cache ? [{ labels: { driver }, value: cache.size }] : [],
+          ),
+        },
+        {
+          name: "polysearch_upstream_up",
+          help: "Whether the circuit of an upstream driver is closed or half-open (1) or open (0)",
+          type: "gauge",
+          samples: drivers.flatMap(({ driver, health }) =>
+            health.map(({ name, state }) => ({
+              labels: { driver, upstream: name },
+              value: state === "open" ? 0 : 1,
+            })),
+          ),
+        },
+      ];
+
+      return `${families.map(renderFamily).join("\n")}\n`;
+    },
+  };
+}
@@ -0,0 +1,480 @@
+import {
+  getSearchOptionsSchema,
+  getSuggestionOptionsSchema,
+  type JSONSchema,
+} from "../schema";
+import type { DriverDescription } from "../types";
+
+export interface OpenAPISpecOptions {
+  title?: string; // API title (default: PolySearch)
+  version?: string; // API version (default: 0.0.0)
+  index?: boolean; // Describe the /drivers endpoint (servers with several drivers)
+}
+
+// Driver mounted on the server
+export interface OpenAPIDriver {
+  description: DriverDescription; // See describe()
+  basePath?: string; // Prefix of the driver endpoints (e.g. /npm)
+}
+
+// Shapes of the responses, mirrors SearchResponse, SearchError and Suggestion
+const componentSchemas: Record<string, object> = {
+  SearchResult: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      url: { type: "string" },
+      snippet: { type: "string" },
+      sources: { type: "array", items: { type: "string" } },
+      kind: { type: "string" },
+      publishedAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+      author: { type: "string" },
+      thumbnail: { type: "string" },
+      favicon: { type: "string" },
+      score: { type: "number" },
+      meta: { type: "object", additionalProperties: true },
+    },
+    required: ["title", "url"],
+  },
+  SearchError: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      code: {
+        type: "string",
+        enum: [
+          "rate-limit",
+          "auth",
+          "upstream",
+          "timeout",
+          "parse",
+          "unavailable",
+          "invalid-request",
+        ],
+      },
+      message: { type: "string" },
+      driver: { type: "string" },
+      status: { type: "integer" },
+      retryAfter: { type: "integer" },
+    },
+    required: ["name", "code", "message"],
+  },
+  SearchResponse: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: { $ref: "#/components/schemas/SearchResult" },
+      },
+      totalResults: { type: "integer" },
+      pagination: {
+        type: "object",
+        properties: {
+          page: { type: "integer" },
+          perPage: { type: "integer" },
+          nextCursor: { type: "string" },
+        },
+      },
+      errors: {
+        type: "array",
+        items: { $ref: "#/components/schemas/SearchError" },
+      },
+      driver: { type: "string" },
+    },
+    required: ["results"],
+  },
+  Suggestion: {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      sources: { type: "array", items: { type: "string" } },
+      score: { type: "number" },
+    },
+    required: ["text", "sources"],
+  },
+  SuggestResponse: {
+    type: "object",
+    properties: {
+      suggestions: {
+        type: "array",
+        items: {
+          oneOf: [
+            { type: "string" },
+            { $ref: "#/components/schemas/Suggestion" },
+          ],
+        },
+      },
+    },
+    required: ["suggestions"],
+  },
+  Error: {
+    type: "object",
+    properties: {
+      status: { type: "integer" },
+      message: { type: "string" },
+      data: {
+        type: "object",
+        properties: {
+          issues: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                message: { type: "string" },
+              },
+              required: ["path", "message"],
+            },
+          },
+        },
+        additionalProperties: true,
+      },
+    },
+    required: ["status", "message"],
+  },
+};
+
+// Response referencing one of the component schemas
+function jsonResponse(description: string, schema: string) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: `#/components/schemas/${schema}` },
+      },
+    },
+  };
+}
+
+// Error responses shared by the search and suggest endpoints
+const errorResponses = {
+  "400": jsonResponse("Malformed request body or pagination cursor", "Error"),
+  "422": jsonResponse("Invalid options", "Error"),
+  "429": jsonResponse("Upstream rate limit reached", "Error"),
+  "502": jsonResponse("Upstream failure", "Error"),
+  "503": jsonResponse("Driver unavailable (circuit open)", "Error"),
+  "504": jsonResponse("Upstream timeout", "Error"),
+};
+
+// Query parameters of a GET endpoint, query is sent as q and objects as JSON strings
+function toParameters(schema: JSONSchema) {
+  return Object.entries(schema.properties || {}).map(([name, property]) => {
+    const types = [property.type || []].flat();
+    return {
+      name: name === "query" ? "q" : name,
+      in: "query",
+      required: schema.required?.includes(name) || false,
+      ...(property.description && { description: property.description }),
+      schema: types.includes("object")
+        ? { type: "string", description: "JSON encoded value" }
+        : property,
+    };
+  });
+}
+
+// Add the endpoints of a driver, operation ids are prefixed with the base path to keep them unique
+function addDriverPaths(
+  paths: Record<string, object>,
+  { description, basePath = "" }: OpenAPIDriver,
+) {
+  const { capabilities } = description;
+  const searchSchema = getSearchOptionsSchema(capabilities);
+  const suggestSchema = getSuggestionOptionsSchema();
+  const prefix = basePath
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .join("_");
+  const operationId = (id: string) => (prefix ? `${prefix}_${id}` : id);
+
+  if (capabilities.search) {
+    paths[`${basePath}/search`] = {
+      get: {
+        operationId: operationId("search"),
+        summary: `Search using the ${description.name} driver`,
+        parameters: [
+          ...toParameters(searchSchema),
+          {
+            name: "stream",
+            in: "query",
+            description: "Stream partial responses as Server-Sent Events",
+            schema: { type: "boolean" },
+          },
+          {
+            name: "format",
+            in: "query",
+            description:
+              "Response format: JSON, HTML results page, redirect to the first result, Atom or RSS feed, CSV, NDJSON or Markdown (also selected with Accept)",
+            schema: {
+              type: "string",
+              enum: [
+                "json",
+                "html",
+                "redirect",
+                "atom",
+                "rss",
+                "csv",
+                "ndjson",
+                "markdown",
+              ],
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Search response",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SearchResponse" },
+              },
+              "text/event-stream": {
+                schema: {
+                  type: "string",
+                  description: "snapshot events with a SearchResponse",
+                },
+              },
+              "text/html": { schema: { type: "string" } },
+              "application/atom+xml": { schema: { type: "string" } },
+              "application/rss+xml": { schema: { type: "string" } },
+              "text/csv": { schema: { type: "string" } },
+              "application/x-ndjson": {
+                schema: { $ref: "#/components/schemas/SearchResult" },
+              },
+              "text/markdown": { schema: { type: "string" } },
+            },
+          },
+          "302": { description: "Redirect to the first result" },
+          ...errorResponses,
+        },
+      },
+      post: {
+        operationId: operationId("searchWithBody"),
+        summary: `Search using the ${description.name} driver with a JSON body`,
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: searchSchema } },
+        },
+        responses: {
+          "200": jsonResponse("Search response", "SearchResponse"),
+          ...errorResponses,
+        },
+      },
+    };
+  }
+
+  if (capabilities.suggest) {
+    paths[`${basePath}/suggest`] = {
+      get: {
+        operationId: operationId("suggest"),
+        summary: `Get suggestions using the ${description.name} driver`,
+        parameters: [
+          ...toParameters(suggestSchema),
+          {
+            name: "sources",
+            in: "query",
+            description: "Return suggestions as { text, sources } objects",
+            schema: { type: "boolean" },
+          },
+          {
+            name: "format",
+            in: "query",
+            description:
+              "Response format: JSON or OpenSearch Suggestions ([query, suggestions, descriptions, urls])",
+            schema: { type: "string", enum: ["json", "opensearch"] },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Suggestions",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SuggestResponse" },
+              },
+              "application/x-suggestions+json": { schema: { type: "array" } },
+            },
+          },
+          ...errorResponses,
+        },
+      },
+      post: {
+        operationId: operationId("suggestWithBody"),
+        summary: `Get suggestions using the ${description.name} driver with a JSON body`,
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: suggestSchema } },
+        },
+        responses: {
+          "200": jsonResponse("Suggestions", "SuggestResponse"),
+          ...errorResponses,
+        },
+      },
+    };
+  }
+
+  paths[`${basePath}/capabilities`] = {
+    get: {
+      operationId: operationId("capabilities"),
+      summary: "Driver name and capabilities",
+      responses: {
+        "200": {
+          description: "Driver description",
+          content: { "application/json": { schema: { type: "object" } } },
+        },
+      },
+    },
+  };
+
+  paths[`${basePath}/opensearch.xml`] = {
+    get: {
+      operationId: operationId("opensearch"),
+      summary:
+        "OpenSearch description to add the driver as a browser search engine",
+      responses: {
+        "200": {
+          description: "OpenSearch description",
+          content: {
+            "application/opensearchdescription+xml": {
+              schema: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  // /health of the root driver is the server health (see createOpenAPISpec)
+  if (basePath) {
+    paths[`${basePath}/health`] = {
+      get: {
+        operationId: operationId("health"),
+        summary: "Failure rate, latency and circuit state of each driver",
+        responses: {
+          "200": {
+            description: "Driver health",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+          "503": {
+            description: "Driver not ready (circuits open)",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    };
+  }
+}
+
+// Server name, version and drivers, served at / and /info
+function infoOperation(id: string) {
+  return {
+    operationId: id,
+    summary: "Server name, version and drivers",
+    responses: {
+      "200": {
+        description: "Server info",
+        content: { "application/json": { schema: { type: "object" } } },
+      },
+    },
+  };
+}
+
+/**
+ * This function generates an OpenAPI 3.1 document for the search server.
+ *
+ * Search parameters are generated from the driver capabilities, so they
+ * include sort, order and the driver-specific options.
+ *
+ * @param drivers Drivers mounted on the server and their base paths
+ * @param opts OpenAPI document options
+ * @returns OpenAPI document
+ */
+export function createOpenAPISpec(
+  drivers: OpenAPIDriver[],
+  opts: OpenAPISpecOptions = {},
+) {
+  const paths: Record<string, object> = {};
+
+  for (const driver of drivers) {
+    addDriverPaths(paths, driver);
+  }
+
+  paths["/"] = {
+    get: infoOperation("root"),
+    head: {
+      operationId: "rootHead",
+      summary: "Check that the server answers",
+      responses: { "200": { description: "Server is live" } },
+    },
+  };
+  paths["/info"] = { get: infoOperation("info") };
+
+  paths["/health"] = {
+    get: {
+      operationId: "serverHealth",
+      summary: "Liveness of the server and readiness of each driver",
+      responses: {
+        "200": {
+          description:
+            "Server health, degraded when some drivers are not ready",
+          content: { "application/json": { schema: { type: "object" } } },
+        },
+        "503": {
+          description: "No driver is ready",
+          content: { "application/json": { schema: { type: "object" } } },
+        },
+      },
+    },
+  };
+
+  paths["/metrics"] = {
+    get: {
+      operationId: "metrics",
+      summary:
+        "Request counts, latency histograms, cache hit ratio and upstream errors",
+      responses: {
+        "200": {
+          description: "Prometheus metrics",
+          content: { "text/plain": { schema: { type: "string" } } },
+        },
+      },
+    },
+  };
+
+  if (opts.index) {
+    paths["/drivers"] = {
+      get: {
+        operationId: "drivers",
+        summary: "Drivers mounted on the server",
+        responses: {
+          "200": {
+            description: "Driver names, paths and capabilities",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    };
+  }
+
+  paths["/openapi.json"] = {
+    get: {
+      operationId: "openapi",
+      summary: "This document",
+      responses: {
+        "200": {
+          description: "OpenAPI document",
+          content: { "application/json": { schema: { type: "object" } } },
+        },
+      },
+    },
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: opts.title || "PolySearch",
+      version: opts.version || "0.0.0",
+      description: `Search API backed by the ${drivers.map(({ description }) => description.name).join(", ")} driver${drivers.length === 1 ? "" : "s"}`,
+    },
+    paths,
+    components: { schemas: componentSchemas },
+  };
+}
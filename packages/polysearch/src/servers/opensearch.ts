@@ -0,0 +1,59 @@
+import type { Suggestion } from "../types";
+import { escapeXML } from "./formats";
+
+export interface OpenSearchDescriptionOptions {
+  shortName: string; // Name shown by browsers (at most 16 characters)
+  description: string;
+  baseUrl: string; // Public URL of the driver endpoints (e.g. https://search.example.com/npm)
+  suggest?: boolean; // Advertise the suggestion endpoint
+  searchFormat?: "html" | "redirect"; // Response of the search URL opened by browsers (default: html)
+}
+
+/**
+ * This function generates an OpenSearch 1.1 description document, which
+ * lets browsers add the server as a search engine.
+ *
+ * @param opts Names and URLs of the search engine
+ * @returns OpenSearch description XML
+ */
+export function createOpenSearchDescription(
+  opts: OpenSearchDescriptionOptions,
+): string {
+  const { baseUrl, searchFormat = "html" } = opts;
+  const urls = [
+    `<Url type="text/html" method="get" template="${escapeXML(`${baseUrl}/search?q={searchTerms}&format=${searchFormat}`)}"/>`,
+    `<Url type="application/json" method="get" template="${escapeXML(`${baseUrl}/search?q={searchTerms}&page={startPage?}`)}"/>`,
+    ...(opts.suggest
+      ? [
+          `<Url type="application/x-suggestions+json" method="get" template="${escapeXML(`${baseUrl}/suggest?q={searchTerms}&format=opensearch`)}"/>`,
+        ]
+      : []),
+    `<Url type="application/opensearchdescription+xml" rel="self" template="${escapeXML(`${baseUrl}/opensearch.xml`)}"/>`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/" xmlns:moz="http://www.mozilla.org/2006/browser/search/">
+  <ShortName>${escapeXML(opts.shortName.slice(0, 16))}</ShortName>
+  <Description>${escapeXML(opts.description)}</Description>
+  <InputEncoding>UTF-8</InputEncoding>
+  <OutputEncoding>UTF-8</OutputEncoding>
+${urls.map((url) => `  ${url}`).join("\n")}
+  <moz:SearchForm>${escapeXML(`${baseUrl}/search?format=html`)}</moz:SearchForm>
+</OpenSearchDescription>
+`;
+}
+
+// OpenSearch Suggestions response: [query, completions, descriptions, urls]
+// Descriptions list the drivers that returned each suggestion
+export function toOpenSearchSuggestions(
+  query: string,
+  suggestions: Suggestion[],
+  getUrl?: (text: string) => string,
+): [string, string[], string[], string[]] {
+  return [
+    query,
+    suggestions.map(({ text }) => text),
+    suggestions.map(({ sources }) => sources.join(", ")),
+    suggestions.map(({ text }) => getUrl?.(text) ?? ""),
+  ];
+}
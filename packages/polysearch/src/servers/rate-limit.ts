@@ -0,0 +1,214 @@
+import { createStorage, prefixStorage, type Storage } from "unstorage";
+import lruDriver from "unstorage/drivers/lru-cache";
+
+// How requests are counted
+// - sliding-window: at most limit requests in any window (weighted with the previous window)
+// - token-bucket: bursts of up to limit requests, refilled at limit per window
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+// Limit applied to each client
+export interface RateLimitPolicy {
+  limit: number; // Requests allowed per window
+  window: number; // Window in seconds
+  algorithm?: RateLimitAlgorithm; // Default: sliding-window
+}
+
+export interface RateLimiterOptions {
+  storage?: Storage; // Storage shared by the server instances (default: in-memory LRU)
+  prefix?: string; // Key prefix to share one storage with other data (default: ratelimit)
+  maxItems?: number; // Maximum clients tracked by the default storage (default: 10000)
+}
+
+// Outcome of a request, used for the RateLimit-* headers
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Requests left in the current window
+  reset: number; // Seconds until the quota is fully available again
+  retryAfter?: number; // Seconds until the next request is allowed (rejected requests)
+  policy: string; // RateLimit-Policy header value (e.g. 100;w=60)
+}
+
+// Counters of the current and previous windows
+interface SlidingWindowState {
+  start: number; // Timestamp (ms) of the current window start
+  current: number;
+  previous: number;
+}
+
+// Tokens left and when they were last refilled
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number; // Timestamp (ms)
+}
+
+function consumeSlidingWindow(
+  state: SlidingWindowState | null,
+  policy: RateLimitPolicy,
+  now: number,
+): { state: SlidingWindowState; result: Omit<RateLimitResult, "policy"> } {
+  const { limit } = policy;
+  const windowMs = policy.window * 1000;
+  const start = Math.floor(now / windowMs) * windowMs;
+
+  // Roll the counters over to the current window
+  let current = 0;
+  let previous = 0;
+  if (state && state.start === start) {
+    ({ current, previous } = state);
+  } else if (state && state.start === start - windowMs) {
+    previous = state.current;
+  }
+
+  // Weight of the previous window still inside the sliding window
+  const elapsed = (now - start) / windowMs;
+  const count = previous * (1 - elapsed) + current;
+  const allowed = count + 1 <= limit;
+  if (allowed) {
+    current++;
+  }
+
+  const reset = Math.ceil((start + windowMs - now) / 1000);
+  let retryAfter: number | undefined;
+  if (!allowed) {
+    // Wait until the previous window weighs little enough, or the current window ends
+    retryAfter =
+      current + 1 <= limit && previous > 0
+        ? Math.max(
+            1,
+            Math.ceil(
+              ((1 - (limit - current - 1) / previous) * windowMs -
+                (now - start)) /
+                1000,
+            ),
+          )
+        : reset;
+  }
+
+  return {
+    state: { start, current, previous },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(
+        0,
+        Math.floor(limit - previous * (1 - elapsed) - current),
+      ),
+      reset,
+      ...(retryAfter !== undefined && { retryAfter }),
+    },
+  };
+}
+
+function consumeTokenBucket(
+  state: TokenBucketState | null,
+  policy: RateLimitPolicy,
+  now: number,
+): { state: TokenBucketState; result: Omit<RateLimitResult, "policy"> } {
+  const { limit } = policy;
+  const rate = limit / (policy.window * 1000); // Tokens per ms
+
+  // Refill since the last request, up to a full bucket
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = state ? Math.min(limit, state.tokens + elapsed * rate) : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens--;
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((limit - tokens) / rate / 1000),
+      ...(!allowed && {
+        retryAfter: Math.max(1, Math.ceil((1 - tokens) / rate / 1000)),
+      }),
+    },
+  };
+}
+
+// Count requests per client in a storage shared by the server instances
+// Updates are serialized per key within an instance, across instances they are best-effort
+export function createRateLimiter(options: RateLimiterOptions = {}) {
+  const baseStorage =
+    options.storage ||
+    createStorage({
+      driver: lruDriver({ max: options.maxItems || 10_000 }),
+    });
+  const storage = prefixStorage(baseStorage, options.prefix ?? "ratelimit");
+
+  // Pending update of each key
+  const locks = new Map<string, Promise<unknown>>();
+
+  const update = async (
+    key: string,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitResult> => {
+    const algorithm = policy.algorithm || "sliding-window";
+    const storageKey = `${algorithm}:${key}`;
+    const now = Date.now();
+
+    const { state, result } =
+      algorithm === "token-bucket"
+        ? consumeTokenBucket(
+            await storage.get<TokenBucketState>(storageKey),
+            policy,
+            now,
+          )
+        : consumeSlidingWindow(
+            await storage.get<SlidingWindowState>(storageKey),
+            policy,
+            now,
+          );
+
+    // Kept for two windows since sliding windows read the previous one
+    await storage.set(storageKey, state, { ttl: policy.window * 2 });
+
+    return { ...result, policy: `${policy.limit};w=${policy.window}` };
+  };
+
+  return {
+    // Count a request of a client and check whether it is allowed
+    consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+      const previous = locks.get(key) || Promise.resolve();
+      const promise = previous.catch(() => {}).then(() => update(key, policy));
+      locks.set(key, promise);
+      void promise
+        .finally(() => {
+          if (locks.get(key) === promise) {
+            locks.delete(key);
+          }
+        })
+        .catch(() => {});
+      return promise;
+    },
+
+    // Forget the requests of a client
+    async reset(key: string): Promise<void> {
+      await Promise.all(
+        ["sliding-window", "token-bucket"].map((algorithm) =>
+          storage.removeItem(`${algorithm}:${key}`),
+        ),
+      );
+    },
+  };
+}
+
+// RateLimit-* headers (IETF draft) of a result, with Retry-After for rejected requests
+export function getRateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  return {
+    "RateLimit-Policy": result.policy,
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.reset),
+    ...(result.retryAfter !== undefined && {
+      "Retry-After": String(result.retryAfter),
+    }),
+  };
+}
@@ -0,0 +1,34 @@
+// Split text into lowercase words, ignoring punctuation
+function getWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Set of word n-grams (shingles) of a text
+// Texts shorter than the shingle size are represented by their words
+export function getShingles(text: string, size = 3): Set<string> {
+  const words = getWords(text);
+  if (words.length < size) {
+    return new Set(words);
+  }
+
+  const shingles = new Set<string>();
+  for (let index = 0; index + size <= words.length; index++) {
+    shingles.add(words.slice(index, index + size).join(" "));
+  }
+  return shingles;
+}
+
+// Jaccard similarity of two sets, from 0 (nothing in common) to 1 (identical)
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) {
+      intersection++;
+    }
+  }
+  return intersection / (a.size + b.size - intersection);
+}
@@ -1,5 +1,21 @@
+// Error handling mode
+// - "throw": throw a PolySearchError
+// - "report": return empty results with SearchResponse.errors
+// - undefined: log the error and return empty results
+export type ErrorMode = "throw" | "report";
+
+// Level-aware logger (compatible with console, consola and pino)
+export interface Logger {
+  debug: (message: string, ...args: unknown[]) => void;
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
+
 // Driver options
 export interface DriverOptions {
+  errors?: ErrorMode; // Default error mode for this driver
+  logger?: Logger; // Logger for requests, cache and failures (silent by default)
   [key: string]: any;
 }
 
@@ -8,29 +24,116 @@ export interface CacheOptions {
   storage?: import("unstorage").Storage; // Storage instance (optional, defaults to LRU Cache)
   perPage?: number; // Default results per page
   ttl?: number; // Cache expiration time in seconds
+  staleTtl?: number; // Seconds expired entries are still served while refreshing in the background (default: 0)
+  negativeTtl?: number; // Expiration time in seconds for empty or failed responses (default: min(ttl, 10))
   maxItems?: number; // Maximum items in LRU cache (default: 100)
+  prefix?: string; // Key prefix to share one storage between several instances
   [key: string]: any; // Additional cache configuration
 }
 
 // Cache configuration (can be options or false to disable)
 export type CacheConfig = CacheOptions | false;
 
+// Cache statistics since the cache was created
+export interface CacheStats {
+  hits: number; // Fresh and stale hits
+  misses: number;
+  evictions: number; // Entries removed because they expired or were invalidated
+  size: number; // Number of stored entries
+}
+
+// Cache of search responses used by drivers and search managers
+export interface SearchCache {
+  perPage?: number;
+  ttl: number;
+  negativeTtl: number; // TTL of empty or failed responses
+  get: (key: string) => Promise<SearchResponse | null>; // Fresh value only
+  set: (key: string, value: SearchResponse) => Promise<void>;
+  has: (key: string) => Promise<boolean>; // Whether a fresh value exists
+  // Get a value from the cache or run the request (stale-while-revalidate, single-flight)
+  resolve: (
+    key: string,
+    run: (signal: AbortSignal) => Promise<SearchResponse>,
+    signal?: AbortSignal,
+  ) => Promise<SearchResponse>;
+  // Share one call between concurrent calls with the same key
+  dedupe: <T>(
+    key: string,
+    run: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ) => Promise<T>;
+  invalidate: (prefix: string) => Promise<number>; // Remove entries whose key starts with prefix
+  clear: () => Promise<void>; // Remove all entries (of this prefix)
+  stats: () => Promise<CacheStats>;
+}
+
+// Kind of entity a search result refers to
+export type SearchResultKind =
+  | "web"
+  | "package"
+  | "repo"
+  | "issue"
+  | "commit"
+  | "code"
+  | "user"
+  | "topic"
+  | "label";
+
+// Ranking details added by the hybrid driver in debug mode
+export interface SearchResultRanking {
+  strategy: string; // Ranking strategy (weighted-rank, rrf, round-robin, custom)
+  score: number; // Score used to sort results (higher is better)
+  ranks: Record<string, number>; // Rank in each driver's results (1-based)
+}
+
 // Search result item
-export interface SearchResult {
+export interface SearchResult<MetaT = Record<string, any>> {
   title: string;
   url: string;
   snippet?: string;
   sources?: string[]; // Array of driver names that returned this result
+  kind?: SearchResultKind;
+  publishedAt?: string; // ISO 8601 creation or publish date
+  updatedAt?: string; // ISO 8601 last update date
+  author?: string; // Author, owner or publisher name
+  thumbnail?: string; // Image or avatar URL
+  favicon?: string; // Site icon URL
+  score?: number; // Relevance score reported by the upstream API
+  meta?: MetaT; // Driver-specific structured data
+  ranking?: SearchResultRanking; // Hybrid ranking details (debug mode)
+}
+
+// Error category of a failed search
+export type SearchErrorCode =
+  | "rate-limit"
+  | "auth"
+  | "upstream"
+  | "timeout"
+  | "parse"
+  | "unavailable" // Skipped because its circuit is open
+  | "invalid-request"; // Rejected options (e.g. a malformed pagination cursor)
+
+// Serializable search error reported in SearchResponse
+export interface SearchError {
+  name: string; // Error class name (e.g. RateLimitError)
+  code: SearchErrorCode;
+  message: string;
+  driver?: string; // Name of the driver that failed
+  status?: number; // Upstream HTTP status code
+  retryAfter?: number; // Seconds until a rate limit resets
 }
 
 // Search response with metadata
-export interface SearchResponse {
-  results: SearchResult[];
+export interface SearchResponse<MetaT = Record<string, any>> {
+  results: SearchResult<MetaT>[];
   totalResults?: number;
   pagination?: {
     page?: number;
     perPage?: number;
+    nextCursor?: string; // Pass as the cursor option to get the next page (hybrid)
   };
+  errors?: SearchError[]; // Failures reported in "report" mode or by hybrid drivers
+  driver?: string; // Name of the driver that answered (fallback driver)
 }
 
 // Search options
@@ -38,33 +141,151 @@ export interface SearchOptions {
   query: string;
   page?: number;
   perPage?: number;
+  cursor?: string; // Continue from pagination.nextCursor of the previous page (hybrid)
   cache?: CacheConfig; // Optional: cache config or false to disable, modifying this creates a new cache
+  errors?: ErrorMode; // Overrides the driver's error mode
+  signal?: AbortSignal; // Cancels in-flight upstream requests
   [key: string]: any;
 }
 
 // Suggestion options (autocomplete)
 export interface SuggestionOptions {
   query: string;
+  limit?: number; // Maximum number of suggestions
+  errors?: ErrorMode; // Overrides the driver's error mode
+  signal?: AbortSignal; // Cancels in-flight upstream requests
   [key: string]: any;
 }
 
+// Suggestion with the drivers that returned it
+export interface Suggestion {
+  text: string;
+  sources: string[]; // Names of the drivers that returned this suggestion
+  score?: number; // Fusion score (hybrid), higher is better
+}
+
 // Utility types
 export type MaybePromise<T> = T | Promise<T>;
 
+// JSON schema of a driver-specific option
+export interface OptionSchema {
+  type: "string" | "integer" | "number" | "boolean";
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+// Static description of what a driver supports
+export interface DriverCapabilities {
+  search: boolean; // False for suggestion-only drivers
+  suggest: boolean; // Returns suggestions (false for drivers with an empty stub)
+  requiresAuth: boolean; // A token is required to search
+  pagination: boolean; // Supports the page option
+  maxPerPage?: number; // Upstream page size limit
+  defaultPerPage?: number; // Page size used when perPage is not set
+  sort?: string[]; // Accepted values of the sort option
+  order?: Array<"asc" | "desc">; // Accepted values of the order option
+  kinds?: SearchResultKind[]; // Kinds of results returned
+  options?: Record<string, OptionSchema>; // Driver-specific search options (besides sort and order)
+}
+
+// Driver introspection returned by describe()
+export interface DriverDescription {
+  name: string;
+  capabilities: DriverCapabilities;
+}
+
 // Search driver interface
 export interface Driver<OptionsT = DriverOptions> {
   name?: string;
   options?: OptionsT;
+  capabilities?: DriverCapabilities;
+  cache?: SearchCache; // Cache used by the driver (for invalidation and stats)
 
   // Core search method
   search: (options: SearchOptions) => MaybePromise<SearchResponse>;
 
+  // Optional streaming search, yields partial responses as results arrive
+  // The last response is the same as the one returned by search()
+  searchStream?: (options: SearchOptions) => AsyncIterable<SearchResponse>;
+
   // Optional suggestion method (autocomplete)
   suggest?: (options: SuggestionOptions) => MaybePromise<string[]>;
+
+  // Optional suggestion method with sources (e.g. hybrid)
+  richSuggest?: (options: SuggestionOptions) => MaybePromise<Suggestion[]>;
+
+  // Optional health of the drivers queried by this driver (e.g. hybrid)
+  health?: () => DriverHealth[];
+}
+
+// Circuit breaker state of a driver
+// - closed: requests are sent
+// - open: requests are skipped until the cooldown ends
+// - half-open: a single probe request decides whether to close or reopen
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureRate?: number; // Failure rate that opens the circuit (default: 0.5)
+  minRequests?: number; // Requests in the window before the circuit can open (default: 5)
+  windowSize?: number; // Number of recent requests tracked (default: 20)
+  cooldown?: number; // Time in ms before an open circuit is probed (default: 30000)
+}
+
+// Health of a driver, from its recent requests
+export interface DriverHealth {
+  name: string;
+  state: CircuitState;
+  requests: number; // Requests in the window
+  failures: number; // Failed requests in the window
+  failureRate: number; // failures / requests (0 without requests)
+  latency?: {
+    // Latency percentiles in ms
+    p50: number;
+    p90: number;
+    p99: number;
+  };
+  latencyHistogram?: {
+    // Latency of every request since the driver was created (not only the window)
+    buckets: Array<{ le: number; count: number }>; // Requests at or under each bound in ms (cumulative)
+    sum: number; // Total latency in ms
+    count: number;
+  };
+  lastError?: SearchError;
+  retryAt?: number; // Timestamp (ms) when an open circuit will be probed
+}
+
+// Context passed to the onError hook
+export type PolySearchHookContext =
+  | { type: "search"; options: SearchOptions }
+  | { type: "suggest"; options: SuggestionOptions };
+
+// Hooks around search and suggest calls
+// Returning a value replaces the options or results, returning nothing keeps them
+export interface PolySearchHooks {
+  beforeSearch?: (options: SearchOptions) => MaybePromise<SearchOptions | void>;
+  afterSearch?: (
+    response: SearchResponse,
+    options: SearchOptions,
+  ) => MaybePromise<SearchResponse | void>;
+  beforeSuggest?: (
+    options: SuggestionOptions,
+  ) => MaybePromise<SuggestionOptions | void>;
+  afterSuggest?: (
+    suggestions: string[],
+    options: SuggestionOptions,
+  ) => MaybePromise<string[] | void>;
+  onError?: (
+    error: unknown,
+    context: PolySearchHookContext,
+  ) => MaybePromise<void>;
 }
 
 // Search Manager configuration
 export interface PolySearchOptions {
   driver: Driver;
-  cache?: CacheConfig;
+  cache?: CacheConfig; // Cache search responses of any driver (in addition to the driver's own cache)
+  logger?: Logger; // Logger for search and suggest calls (silent by default)
+  hooks?: PolySearchHooks | PolySearchHooks[]; // Hooks run in order
 }
@@ -0,0 +1,106 @@
+// Query parameters that only track where visitors come from
+export const defaultTrackingParams: Array<string | RegExp> = [
+  /^utm_/, // Google Analytics (utm_source, utm_medium, ...)
+  "fbclid", // Facebook
+  "gclid", // Google Ads
+  "dclid", // Google Display
+  "gbraid",
+  "wbraid",
+  "msclkid", // Microsoft Ads
+  "yclid", // Yandex
+  "igshid", // Instagram
+  "mc_cid", // Mailchimp
+  "mc_eid",
+  "_hsenc", // HubSpot
+  "_hsmi",
+  "mkt_tok", // Marketo
+  "ref_src", // Twitter
+  "ref_url",
+];
+
+export interface CanonicalizeUrlOptions {
+  trackingParams?: Array<string | RegExp>; // Parameters to remove (default: defaultTrackingParams)
+  collapseAmp?: boolean; // Map AMP pages to the page they mirror (default: true)
+  collapseMobile?: boolean; // Map m. and mobile. hosts to the main host (default: true)
+  keepFragment?: boolean; // Keep #fragment (default: false)
+}
+
+// Hosts serving mirrors of the page in their path, e.g. www.google.com/amp/s/example.com/page
+const ampCachePaths: Array<[RegExp, RegExp]> = [
+  [/(^|\.)cdn\.ampproject\.org$/, /^\/[a-z]\/(?:s\/)?/],
+  [/^(www\.)?google\.[a-z.]+$/, /^\/amp\/(?:s\/)?/],
+  [/^(www\.)?bing-amp\.com$/, /^\/c\/(?:s\/)?/],
+];
+
+// Canonical form of a URL used to detect duplicates across drivers
+// The protocol, www., default ports, tracking parameters, trailing slashes and fragments are ignored,
+// query parameters are sorted, and the path keeps its case since paths are case-sensitive
+// Strings that are not absolute URLs are returned trimmed
+export function canonicalizeUrl(
+  url: string,
+  options: CanonicalizeUrlOptions = {},
+): string {
+  const {
+    trackingParams = defaultTrackingParams,
+    collapseAmp = true,
+    collapseMobile = true,
+    keepFragment = false,
+  } = options;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (collapseAmp) {
+    const cache = ampCachePaths.find(
+      ([host, path]) =>
+        host.test(parsed.hostname) && path.test(parsed.pathname),
+    );
+    if (cache) {
+      const mirrored = parsed.pathname.replace(cache[1], "");
+      try {
+        parsed = new URL(`https://${mirrored}${parsed.search}${parsed.hash}`);
+      } catch {
+        // Not a mirrored URL, keep it as is
+      }
+    }
+  }
+
+  let host = parsed.hostname.toLowerCase().replace(/^www\d*\./, "");
+  if (collapseMobile) {
+    host = host.replace(/^(m|mobile)\./, "");
+  }
+  if (collapseAmp) {
+    host = host.replace(/^amp\./, "");
+  }
+  const port = parsed.port ? `:${parsed.port}` : "";
+
+  let path = parsed.pathname;
+  if (collapseAmp) {
+    path = path.replace(/\/amp\/?$/, "").replace(/\.amp(\.html?)?$/, "$1");
+  }
+  path = path.replace(/\/+$/, "");
+
+  const params = [...parsed.searchParams]
+    .filter(([key, value]) => {
+      if (
+        collapseAmp &&
+        (key === "amp" || (key === "outputType" && value === "amp"))
+      ) {
+        return false;
+      }
+      return !trackingParams.some((param) =>
+        typeof param === "string" ? param === key : param.test(key),
+      );
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const search =
+    params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  const hash = keepFragment ? parsed.hash : "";
+
+  return `${host}${port}${path}${search}${hash}`;
+}
@@ -29,6 +29,9 @@ export function usePolySearch() {
   // Search manager (lazy loaded)
   let searchManager: ReturnType<typeof createSearchManager> | null = null;
 
+  // In-flight search (aborted when a new search starts)
+  let searchController: AbortController | null = null;
+
   /**
    * Get or create search manager
    */
@@ -92,6 +95,11 @@ export function usePolySearch() {
     currentPage.value = page;
     perPage.value = perPageNum;
 
+    // Cancel previous search
+    searchController?.abort();
+    const controller = new AbortController();
+    searchController = controller;
+
     // Execute search
     isSearching.value = true;
     error.value = null;
@@ -102,6 +110,7 @@ export function usePolySearch() {
         query,
         page,
         perPage: perPageNum,
+        signal: controller.signal,
       });
 
       // Update state
@@ -109,19 +118,29 @@ export function usePolySearch() {
       totalResults.value = response.totalResults;
       pagination.value = response.pagination;
     } catch (err) {
+      // Superseded by a newer search
+      if (controller.signal.aborted) {
+        return;
+      }
       error.value = err instanceof Error ? err.message : "Search failed";
       searchResults.value = [];
       totalResults.value = undefined;
       pagination.value = undefined;
     } finally {
-      isSearching.value = false;
+      if (searchController === controller) {
+        searchController = null;
+        isSearching.value = false;
+      }
     }
   }
 
   /**
    * Get search suggestions
    */
-  async function suggest(query: string): Promise<string[]> {
+  async function suggest(
+    query: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
     if (!query.trim()) {
       return [];
     }
@@ -129,7 +148,7 @@ export function usePolySearch() {
     try {
       const manager = getSearchManager();
       if (manager.suggest) {
-        return await manager.suggest({ query });
+        return await manager.suggest({ query, signal });
       }
       return [];
     } catch {
@@ -1,5 +1,6 @@
 import { createPolySearch } from "polysearch";
 import hybridDriver from "polysearch/drivers/hybrid";
+import fallbackDriver from "polysearch/drivers/fallback";
 import googleCSEDriver from "polysearch/drivers/google-cse";
 import duckduckgoDriver from "polysearch/drivers/duckduckgo";
 import type { Driver } from "polysearch";
@@ -66,17 +67,24 @@ export function createHybridDriver(config: SearchEngineConfig): Driver {
     });
   }
 
-  // If no engines enabled, default to DuckDuckGo
+  // If no engines enabled, default to DuckDuckGo (still wrapped for result sources)
   if (drivers.length === 0) {
-    drivers.push({
-      driver: duckduckgoDriver(),
-      weight: 1.0,
+    return hybridDriver({
+      drivers: [{ driver: duckduckgoDriver(), weight: 1.0 }],
     });
   }
 
-  return hybridDriver({
+  const driver = hybridDriver({
     drivers,
   });
+
+  // Fall back to DuckDuckGo when the enabled engines fail or find nothing
+  if (config.duckduckgo.enabled) {
+    return driver;
+  }
+  return fallbackDriver({
+    drivers: [{ driver }, { driver: duckduckgoDriver(), timeout: 5000 }],
+  });
 }
 
 /**
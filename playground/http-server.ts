@@ -25,6 +25,8 @@ console.log("📖 API Usage:");
 console.log("   GET  http://localhost:8081/search?q=github&limit=5");
 console.log("   POST http://localhost:8081/suggest?q=github");
 console.log("   HEAD http://localhost:8081/ (server info)");
+console.log("   GET  http://localhost:8081/health");
+console.log("   GET  http://localhost:8081/metrics (Prometheus)");
 console.log("");
 
 // Start the server
@@ -0,0 +1,23 @@
+/**
+ * PolySearch MCP Server Example
+ */
+
+import { createMCPServer } from "../packages/polysearch/src/servers/mcp";
+import duckduckgoDriver from "../packages/polysearch/src/drivers/duckduckgo";
+
+// Create MCP server using DuckDuckGo driver
+const server = createMCPServer({
+  driver: duckduckgoDriver(),
+});
+
+// Use stdio transport when launched by an MCP client
+if (process.argv.includes("--stdio")) {
+  void server.stdio();
+} else {
+  console.log("🚀 Starting PolySearch MCP server on port 8082...");
+  console.log("📖 Streamable HTTP endpoint:");
+  console.log("   POST http://localhost:8082/mcp");
+  console.log("");
+
+  server.serve(8082);
+}